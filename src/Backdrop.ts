@@ -0,0 +1,98 @@
+import { Camera } from "./Camera";
+import { Color } from "./Color";
+import { Scene } from "./Scene";
+import { Sprite } from "./Sprite";
+import { Tileset } from "./Tileset";
+import { Vector } from "./Vector";
+
+interface BackdropParams {
+    tileset: Tileset;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    repeatX?: boolean;
+    repeatY?: boolean;
+    zIndex?: number;
+    tintColor?: Color;
+}
+
+export class Backdrop {
+    private scene: Scene;
+    private sprites: Sprite[];
+    tileset: Tileset;
+    position: Vector;
+    width: number;
+    height: number;
+    repeatX: boolean;
+    repeatY: boolean;
+    zIndex: number;
+    tintColor: Color;
+
+    constructor(scene: Scene, params: BackdropParams) {
+        this.scene = scene;
+        this.sprites = [];
+        this.tileset = params.tileset;
+        this.position = new Vector(params.x, params.y);
+        this.width = params.width;
+        this.height = params.height;
+        this.repeatX = params.repeatX || false;
+        this.repeatY = params.repeatY || false;
+        this.zIndex = params.zIndex || 0;
+        this.tintColor = params.tintColor || new Color(1, 1, 1, 1);
+    }
+
+    public update(camera: Camera) {
+        const layer = this.scene.getLayer(this.zIndex, false);
+        const bounds = layer ? layer.getCameraBounds(camera) : camera.getBounds();
+
+        let startX = this.position.x;
+        let countX = 1;
+        if (this.repeatX) {
+            startX += Math.floor((bounds.min.x - this.position.x) / this.width) * this.width;
+            countX = Math.ceil((bounds.max.x - startX) / this.width);
+        }
+
+        let startY = this.position.y;
+        let countY = 1;
+        if (this.repeatY) {
+            startY += Math.floor((bounds.min.y - this.position.y) / this.height) * this.height;
+            countY = Math.ceil((bounds.max.y - startY) / this.height);
+        }
+
+        const count = Math.max(countX * countY, 0);
+
+        while (this.sprites.length < count) {
+            const sprite = new Sprite({
+                tileset: this.tileset,
+                zIndex: this.zIndex,
+                isStatic: false
+            });
+            this.sprites.push(this.scene.addSprite(sprite));
+        }
+
+        while (this.sprites.length > count) {
+            this.scene.removeSprite(this.sprites.pop()!);
+        }
+
+        for (let i = 0; i < countY; ++i) {
+            for (let j = 0; j < countX; ++j) {
+                const sprite = this.sprites[i * countX + j];
+                sprite.position.set(startX + j * this.width, startY + i * this.height);
+                sprite.scale.set(this.width, this.height);
+                sprite.tintColor.copy(this.tintColor);
+            }
+        }
+    }
+
+    public getSprites() {
+        return this.sprites;
+    }
+
+    public destroy() {
+        for (const sprite of this.sprites) {
+            this.scene.removeSprite(sprite);
+        }
+        this.sprites.length = 0;
+    }
+}
@@ -25,7 +25,36 @@ export class Color {
         this.a = c.a;
     }
 
+    multiply(c: Color) {
+        this.r *= c.r;
+        this.g *= c.g;
+        this.b *= c.b;
+        this.a *= c.a;
+        return this;
+    }
+
+    clone() {
+        return new Color(this.r, this.g, this.b, this.a);
+    }
+
+    toHex() {
+        const channel = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 255).toString(16).padStart(2, "0");
+        return "#" + (this.a < 1 ? channel(this.a) : "") + channel(this.r) + channel(this.g) + channel(this.b);
+    }
+
     toArray() {
         return new Float32Array([this.r, this.g, this.b, this.a]);
     }
+
+    static fromHex(hex: string) {
+        const value = hex.replace(/^#/, "");
+        if (!/^([0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)) {
+            throw new Error("Invalid hex color: " + hex);
+        }
+
+        const channels = value.match(/../g)!.map(channel => parseInt(channel, 16) / 255);
+        return channels.length === 4 ?
+            new Color(channels[1], channels[2], channels[3], channels[0]) :
+            new Color(channels[0], channels[1], channels[2]);
+    }
 }
\ No newline at end of file
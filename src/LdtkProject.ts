@@ -0,0 +1,40 @@
+import { assets } from "./assets";
+import { LdtkLevelJSON, LdtkProjectJSON, ldtk } from "./ldtk";
+import { Tilemap } from "./Tilemap";
+
+export class LdtkProject {
+    url: string;
+    json: LdtkProjectJSON;
+
+    constructor(json: LdtkProjectJSON, url: string = "") {
+        this.url = url;
+        this.json = json;
+    }
+
+    public static async load(url: string): Promise<LdtkProject> {
+        return new LdtkProject(await assets.loadJson<LdtkProjectJSON>(url), url);
+    }
+
+    public getLevels() {
+        return this.json.levels.length ?
+            this.json.levels :
+            (this.json.worlds || []).flatMap(world => world.levels);
+    }
+
+    public getLevel(identifier: string) {
+        return this.getLevels().find(level => level.identifier === identifier || level.iid === identifier) || null;
+    }
+
+    public async loadLevel(identifier: string): Promise<Tilemap> {
+        let level = this.getLevel(identifier);
+        if (!level) {
+            throw new Error("LDtk project doesn't include level \"" + identifier + "\"");
+        }
+
+        if (!level.layerInstances && level.externalRelPath) {
+            level = await assets.loadJson<LdtkLevelJSON>(assets.resolveUrl(this.url, level.externalRelPath));
+        }
+
+        return Tilemap.fromJSON(ldtk.convertLevel(this.json, level), this.url);
+    }
+}
@@ -0,0 +1,147 @@
+import { assets } from "./assets";
+import { Color } from "./Color";
+import { TilemapObject } from "./Tilemap";
+import { TilePropertyJSON, TilePropertyType, TilePropertyValue } from "./Tileset";
+
+export class PropertyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PropertyError";
+    }
+}
+
+export interface PropertiesContext {
+    baseUrl?: string;
+    resolveObject?: (id: number) => TilemapObject | null;
+}
+
+export class Properties {
+    private props: Map<string, TilePropertyJSON>;
+    private context: PropertiesContext;
+
+    constructor(json: TilePropertyJSON[] = [], context: PropertiesContext = {}) {
+        this.props = new Map(json.map(prop => [prop.name, prop]));
+        this.context = context;
+    }
+
+    public has(name: string) {
+        return this.props.has(name);
+    }
+
+    public getNames() {
+        return Array.from(this.props.keys());
+    }
+
+    public getType(name: string): TilePropertyType | null {
+        const prop = this.props.get(name);
+        if (!prop) return null;
+        if (prop.type) return prop.type;
+
+        switch (typeof prop.value) {
+            case "boolean": return "bool";
+            case "number": return Number.isInteger(prop.value) ? "int" : "float";
+            case "object": return "class";
+            default: return "string";
+        }
+    }
+
+    private lookup(name: string, expected: TilePropertyType[], hasDefault: boolean) {
+        const prop = this.props.get(name);
+        if (!prop) {
+            if (hasDefault) return null;
+            throw new PropertyError(`Property "${name}" is missing`);
+        }
+
+        const type = this.getType(name)!;
+        // Members of class properties carry no type, so strings and numbers may stand for colors, files and objects
+        const untyped = prop.type === undefined && (type === "string" || type === "int");
+        if (!expected.includes(type) && !untyped) {
+            throw new PropertyError(`Property "${name}" is of type "${type}", expected "${expected.join("\" or \"")}"`);
+        }
+
+        return prop;
+    }
+
+    private checkValue(name: string, value: TilePropertyValue, type: string) {
+        if (typeof value !== type) {
+            throw new PropertyError(`Property "${name}" has a ${typeof value} value, expected ${type}`);
+        }
+    }
+
+    public getString(name: string, defaultValue?: string): string {
+        const prop = this.lookup(name, ["string"], defaultValue !== undefined);
+        if (!prop) return defaultValue!;
+        this.checkValue(name, prop.value, "string");
+        return prop.value as string;
+    }
+
+    public getNumber(name: string, defaultValue?: number): number {
+        const prop = this.lookup(name, ["int", "float"], defaultValue !== undefined);
+        if (!prop) return defaultValue!;
+        this.checkValue(name, prop.value, "number");
+        return prop.value as number;
+    }
+
+    public getBoolean(name: string, defaultValue?: boolean): boolean {
+        const prop = this.lookup(name, ["bool"], defaultValue !== undefined);
+        if (!prop) return defaultValue!;
+        this.checkValue(name, prop.value, "boolean");
+        return prop.value as boolean;
+    }
+
+    public getColor(name: string, defaultValue?: Color): Color {
+        const prop = this.lookup(name, ["color"], defaultValue !== undefined);
+        if (!prop || prop.value === "") {
+            if (defaultValue !== undefined) return defaultValue;
+            throw new PropertyError(`Property "${name}" is missing`);
+        }
+        this.checkValue(name, prop.value, "string");
+        return Color.fromHex(prop.value as string);
+    }
+
+    public getFile(name: string, defaultValue?: string): string {
+        const prop = this.lookup(name, ["file"], defaultValue !== undefined);
+        if (!prop) return defaultValue!;
+        this.checkValue(name, prop.value, "string");
+
+        const value = prop.value as string;
+        return this.context.baseUrl && value ? assets.resolveUrl(this.context.baseUrl, value) : value;
+    }
+
+    public getObject(name: string): TilemapObject | null {
+        const prop = this.lookup(name, ["object"], false)!;
+        this.checkValue(name, prop.value, "number");
+
+        const id = prop.value as number;
+        if (id === 0) return null;
+
+        if (!this.context.resolveObject) {
+            throw new PropertyError(`Object property "${name}" can only be resolved within a tilemap`);
+        }
+        return this.context.resolveObject(id);
+    }
+
+    public getClass(name: string, defaultValue?: Properties): Properties {
+        const prop = this.lookup(name, ["class"], defaultValue !== undefined);
+        if (!prop) return defaultValue!;
+        this.checkValue(name, prop.value, "object");
+
+        const members = prop.value as Record<string, TilePropertyValue>;
+        return new Properties(
+            Object.keys(members).map(member => ({ name: member, value: members[member] })),
+            this.context
+        );
+    }
+
+    public get<T>(name: string): T | undefined {
+        if (!this.props.has(name)) return undefined;
+
+        switch (this.getType(name)) {
+            case "color": return (this.props.get(name)!.value === "" ? undefined : this.getColor(name)) as T;
+            case "file": return this.getFile(name) as T;
+            case "object": return (this.context.resolveObject ? this.getObject(name) : this.props.get(name)!.value) as T;
+            case "class": return this.getClass(name) as T;
+            default: return this.props.get(name)!.value as T;
+        }
+    }
+}
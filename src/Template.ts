@@ -0,0 +1,52 @@
+import { assets } from "./assets";
+import { TilemapObjectJSON, TilemapTileset } from "./Tilemap";
+import { TilePropertyJSON } from "./Tileset";
+import { tmx } from "./tmx";
+
+export interface TemplateJSON {
+    type: "template";
+    tileset?: TilemapTileset;
+    object: TilemapObjectJSON;
+}
+
+export class Template {
+    static cache = new Map<string, Template>();
+
+    url: string;
+    tileset: TilemapTileset | null;
+    object: TilemapObjectJSON;
+
+    constructor(json: TemplateJSON, url: string = "") {
+        this.url = url;
+        this.tileset = json.tileset || null;
+        this.object = json.object;
+    }
+
+    public static async load(url: string): Promise<Template> {
+        if (!this.cache.has(url)) {
+            const json = tmx.isXml(url) ?
+                tmx.parseTemplate(await assets.loadXml(url)) :
+                await assets.loadJson<TemplateJSON>(url);
+            this.cache.set(url, new Template(json, url));
+        }
+        return this.cache.get(url)!;
+    }
+
+    public apply(instance: TilemapObjectJSON): TilemapObjectJSON {
+        const properties: TilePropertyJSON[] = [...(this.object.properties || [])];
+        for (const prop of instance.properties || []) {
+            const index = properties.findIndex(item => item.name === prop.name);
+            if (index === -1) {
+                properties.push(prop);
+            } else {
+                properties[index] = prop;
+            }
+        }
+
+        return {
+            ...this.object,
+            ...instance,
+            properties
+        };
+    }
+}
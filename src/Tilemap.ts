@@ -1,32 +1,118 @@
 import { assets } from "./assets";
+import { BoxCollider, CircleCollider, Collider, PolygonCollider } from "./Collider";
+import { Color } from "./Color";
 import { math } from "./math";
+import { Properties } from "./Properties";
 import { SceneLayerRenderOrder } from "./Scene";
-import { TilePropertyJSON, Tileset, TilesetJSON } from "./Tileset";
+import { Template } from "./Template";
+import { TileDataCompression, TileDataEncoding, tileData } from "./tileData";
+import { Tile, TilePropertyJSON, TileRect, Tileset, TilesetJSON } from "./Tileset";
+import { tmx } from "./tmx";
+import { Vector } from "./Vector";
+import { WangId, WangSet } from "./WangSet";
+
+const FLIPPED_HORIZONTALLY_FLAG = 0x80000000;
+const FLIPPED_VERTICALLY_FLAG = 0x40000000;
+const FLIPPED_DIAGONALLY_FLAG = 0x20000000;
+const ROTATED_HEXAGONAL_120_FLAG = 0x10000000;
+const GID_MASK = ~(FLIPPED_HORIZONTALLY_FLAG | FLIPPED_VERTICALLY_FLAG | FLIPPED_DIAGONALLY_FLAG | ROTATED_HEXAGONAL_120_FLAG);
+
+interface TileFlip {
+    flipH: boolean;
+    flipV: boolean;
+    flipD: boolean;
+}
+
+interface TerrainCell {
+    x: number;
+    y: number;
+    color: number | string;
+}
+
+// Wang ID positions a cell shares with each of its neighbours
+const TERRAIN_NEIGHBOURS: [number, number, number[]][] = [
+    [1, 0, [5, 6, 7]], [-1, 0, [1, 2, 3]], [0, 1, [7, 0, 1]], [0, -1, [3, 4, 5]],
+    [1, 1, [7]], [-1, 1, [1]], [1, -1, [5]], [-1, -1, [3]]
+];
 
 type TilemapTileset = TilesetJSON & { firstgid: number; source?: string; }
-type TilemapLayerType = "tilelayer" | "objectgroup";
+type TilemapLayerType = "tilelayer" | "objectgroup" | "imagelayer" | "group";
+type TilemapOrientation = "orthogonal" | "isometric" | "staggered" | "hexagonal";
+type TilemapStaggerAxis = "x" | "y";
+type TilemapStaggerIndex = "odd" | "even";
+
+interface TilemapChunkJSON {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    data: number[] | string;
+}
 
 interface TilemapLayerJSON {
+    id?: number;
     name: string;
     x: number;
     y: number;
     width: number;
     height: number;
     type: TilemapLayerType;
-    data?: number[];
-    objects?: TilemapObject[];
-    draworder?: SceneLayerRenderOrder;
+    offsetx?: number;
+    offsety?: number;
+    opacity?: number;
+    visible?: boolean;
+    tintcolor?: string;
+    parallaxx?: number;
+    parallaxy?: number;
+    layers?: TilemapLayerJSON[];
+    image?: string;
+    imagewidth?: number;
+    imageheight?: number;
+    repeatx?: boolean;
+    repeaty?: boolean;
+    data?: number[] | string;
+    chunks?: TilemapChunkJSON[];
+    startx?: number;
+    starty?: number;
+    encoding?: TileDataEncoding;
+    compression?: TileDataCompression;
+    objects?: TilemapObjectJSON[];
+    draworder?: SceneLayerRenderOrder | "index";
+    intgrid?: number[];
+    intgridvalues?: TileLayerIntGridValue[];
+    properties?: TilePropertyJSON[];
 }
 
 interface TilemapJSON {
+    type?: "map";
+    version?: string;
     width: number;
     height: number;
     tilewidth: number;
     tileheight: number;
+    orientation?: TilemapOrientation;
+    staggeraxis?: TilemapStaggerAxis;
+    staggerindex?: TilemapStaggerIndex;
+    hexsidelength?: number;
+    infinite?: boolean;
+    parallaxoriginx?: number;
+    parallaxoriginy?: number;
+    renderorder?: string;
+    nextlayerid?: number;
+    nextobjectid?: number;
     tilesets: TilemapTileset[];
     layers: TilemapLayerJSON[];
+    properties?: TilePropertyJSON[];
 }
 
+const getFlippedGid = (gid: number, flip: TileFlip) =>
+    (gid | (flip.flipH ? FLIPPED_HORIZONTALLY_FLAG : 0) | (flip.flipV ? FLIPPED_VERTICALLY_FLAG : 0) | (flip.flipD ? FLIPPED_DIAGONALLY_FLAG : 0)) >>> 0;
+
+const serializeProperties = (properties: TilePropertyJSON[]) => {
+    const typed = new Properties(properties);
+    return properties.map(prop => ({ ...prop, type: typed.getType(prop.name)! }));
+};
+
 abstract class Layer {
     name: string;
     x: number;
@@ -35,38 +121,358 @@ abstract class Layer {
     height: number;
     type: TilemapLayerType;
     renderOrder: SceneLayerRenderOrder;
+    offsetX: number;
+    offsetY: number;
+    opacity: number;
+    visible: boolean;
+    tintColor: Color;
+    parallaxX: number;
+    parallaxY: number;
+    parent: GroupLayer | null;
     tilemap!: Tilemap;
+    properties?: TilePropertyJSON[];
+    private propertyMap: Properties | null;
 
     constructor(json: TilemapLayerJSON) {
         this.name = json.name;
-        this.x = json.x;
-        this.y = json.y;
-        this.width = json.width;
-        this.height = json.height;
+        this.x = json.x || 0;
+        this.y = json.y || 0;
+        this.width = json.width || 0;
+        this.height = json.height || 0;
         this.type = json.type;
-        this.renderOrder = json.draworder || "manual";
+        this.renderOrder = json.draworder === "topdown" ? "topdown" : "manual";
+        this.offsetX = json.offsetx || 0;
+        this.offsetY = json.offsety || 0;
+        this.opacity = json.opacity ?? 1;
+        this.visible = json.visible ?? true;
+        this.tintColor = json.tintcolor ? Color.fromHex(json.tintcolor) : new Color(1, 1, 1, 1);
+        this.parallaxX = json.parallaxx ?? 1;
+        this.parallaxY = json.parallaxy ?? 1;
+        this.parent = null;
+        this.properties = json.properties;
+        this.propertyMap = null;
+    }
+
+    public getPath(): string {
+        return this.parent ? this.parent.getPath() + "/" + this.name : this.name;
+    }
+
+    public getTotalOffset(): Vector {
+        const offset = new Vector(this.offsetX, this.offsetY);
+        return this.parent ? offset.add(this.parent.getTotalOffset()) : offset;
+    }
+
+    public getTotalOpacity(): number {
+        return this.opacity * (this.parent ? this.parent.getTotalOpacity() : 1);
+    }
+
+    public getTotalTintColor(): Color {
+        const tintColor = this.tintColor.clone();
+        return this.parent ? tintColor.multiply(this.parent.getTotalTintColor()) : tintColor;
+    }
+
+    public getTotalParallax(): Vector {
+        const parallax = new Vector(this.parallaxX, this.parallaxY);
+        return this.parent ? parallax.mul(this.parent.getTotalParallax()) : parallax;
+    }
+
+    public isVisible(): boolean {
+        return this.visible && (this.parent ? this.parent.isVisible() : true);
+    }
+
+    public getProperties() {
+        if (!this.propertyMap) {
+            this.propertyMap = this.tilemap ? this.tilemap.createProperties(this.properties) : new Properties(this.properties);
+        }
+        return this.propertyMap;
+    }
+
+    public getProperty<T>(name: string): T {
+        return this.getProperties().get<T>(name) as T;
+    }
+
+    public toJSON(): TilemapLayerJSON {
+        const json: TilemapLayerJSON = {
+            name: this.name,
+            type: this.type,
+            x: this.x,
+            y: this.y,
+            width: this.width,
+            height: this.height,
+            offsetx: this.offsetX,
+            offsety: this.offsetY,
+            opacity: this.opacity,
+            visible: this.visible,
+            parallaxx: this.parallaxX,
+            parallaxy: this.parallaxY
+        };
+
+        const tint = this.tintColor;
+        if (tint.r !== 1 || tint.g !== 1 || tint.b !== 1 || tint.a !== 1) {
+            json.tintcolor = tint.toHex();
+        }
+        if (this.properties) {
+            json.properties = serializeProperties(this.properties);
+        }
+
+        return json;
     }
 }
 
+class GroupLayer extends Layer {
+    private layers: Layer[];
+
+    constructor(json: TilemapLayerJSON) {
+        super(json);
+        this.layers = [];
+    }
+
+    public addLayer(layer: Layer) {
+        layer.parent = this;
+        layer.tilemap = this.tilemap;
+        this.layers.push(layer);
+    }
+
+    public getLayers() {
+        return this.layers;
+    }
+
+    public toJSON(): TilemapLayerJSON {
+        return {
+            ...super.toJSON(),
+            layers: this.layers.map(layer => layer.toJSON())
+        };
+    }
+}
+
+interface TileLayerIntGridValue {
+    value: number;
+    identifier: string | null;
+    color?: string;
+}
+
+interface TileLayerChunk {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    data: number[];
+}
+
 class TileLayer extends Layer {
-    private data: number[];
+    intGridValues: TileLayerIntGridValue[];
+    private intGrid: number[] | null;
+    private chunks: TileLayerChunk[];
+    private changeListeners: ((x: number, y: number) => void)[];
+    private chunkMap: Map<string, TileLayerChunk>;
+    private chunkWidth: number;
+    private chunkHeight: number;
 
     constructor(json: TilemapLayerJSON) {
         super(json);
-        this.data = json.data!;
+
+        const chunks: TilemapChunkJSON[] = json.chunks || [{ x: 0, y: 0, width: json.width, height: json.height, data: json.data || [] }];
+
+        this.chunks = chunks.map(chunk => {
+            if (!Array.isArray(chunk.data)) {
+                throw new Error("Tile layer \"" + json.name + "\" data must be decoded before creating the layer");
+            }
+            return { x: chunk.x, y: chunk.y, width: chunk.width, height: chunk.height, data: chunk.data };
+        });
+
+        this.chunkWidth = this.chunks.length ? this.chunks[0].width : 16;
+        this.chunkHeight = this.chunks.length ? this.chunks[0].height : 16;
+
+        this.chunkMap = new Map();
+        for (const chunk of this.chunks) {
+            this.chunkMap.set(this.getChunkKey(chunk.x, chunk.y), chunk);
+        }
+
+        this.intGrid = json.intgrid || null;
+        this.intGridValues = json.intgridvalues || [];
+        this.changeListeners = [];
+    }
+
+    private getChunkKey(x: number, y: number) {
+        return Math.floor(x / this.chunkWidth) + "," + Math.floor(y / this.chunkHeight);
+    }
+
+    private findChunk(x: number, y: number) {
+        const chunk = this.chunkMap.get(this.getChunkKey(x, y));
+        if (chunk && x >= chunk.x && y >= chunk.y && x < chunk.x + chunk.width && y < chunk.y + chunk.height) {
+            return chunk;
+        }
+        return this.chunks.find(chunk => x >= chunk.x && y >= chunk.y && x < chunk.x + chunk.width && y < chunk.y + chunk.height) || null;
+    }
+
+    public getChunks() {
+        return this.chunks;
+    }
+
+    public getGid(x: number, y: number) {
+        const chunk = this.findChunk(x, y);
+        if (!chunk) {
+            return 0;
+        }
+        return chunk.data[(y - chunk.y) * chunk.width + (x - chunk.x)] || 0;
     }
 
     public getTile(x: number, y: number) {
-        const tileId = this.data[y * this.width + x];
+        const tileId = this.getGid(x, y) & GID_MASK;
         if (tileId - 1 == -1) {
             return null;
         }
 
         return this.tilemap.getTileById(tileId);
     }
+
+    public getIntGridValue(x: number, y: number) {
+        if (!this.intGrid || x < 0 || y < 0 || x >= this.width || y >= this.height) return 0;
+        return this.intGrid[y * this.width + x] || 0;
+    }
+
+    public getIntGridIdentifier(x: number, y: number) {
+        const value = this.getIntGridValue(x, y);
+        return this.intGridValues.find(item => item.value === value)?.identifier ?? null;
+    }
+
+    public getTileFlip(x: number, y: number) {
+        return Tilemap.getGidFlip(this.getGid(x, y));
+    }
+
+    public contains(x: number, y: number) {
+        return this.tilemap.infinite || this.findChunk(x, y) !== null;
+    }
+
+    public setGid(x: number, y: number, gid: number) {
+        let chunk = this.findChunk(x, y);
+        if (!chunk) {
+            if (!this.tilemap.infinite) {
+                throw new Error("Tile " + x + ", " + y + " is outside of tile layer \"" + this.name + "\"");
+            }
+
+            chunk = {
+                x: Math.floor(x / this.chunkWidth) * this.chunkWidth,
+                y: Math.floor(y / this.chunkHeight) * this.chunkHeight,
+                width: this.chunkWidth,
+                height: this.chunkHeight,
+                data: new Array(this.chunkWidth * this.chunkHeight).fill(0)
+            };
+            this.chunks.push(chunk);
+            this.chunkMap.set(this.getChunkKey(chunk.x, chunk.y), chunk);
+        }
+
+        chunk.data[(y - chunk.y) * chunk.width + (x - chunk.x)] = gid;
+    }
+
+    public toJSON(): TilemapLayerJSON {
+        const json = super.toJSON();
+        if (this.tilemap.infinite) {
+            json.chunks = this.chunks.map(chunk => ({
+                x: chunk.x,
+                y: chunk.y,
+                width: chunk.width,
+                height: chunk.height,
+                data: chunk.data.map(gid => gid >>> 0)
+            }));
+        } else {
+            json.data = (this.chunks[0]?.data || []).map(gid => gid >>> 0);
+        }
+        if (this.intGrid) {
+            json.intgrid = this.intGrid;
+            json.intgridvalues = this.intGridValues;
+        }
+        return json;
+    }
+
+    public setTile(x: number, y: number, gid: number) {
+        this.setGid(x, y, gid);
+        for (const listener of this.changeListeners) {
+            listener(x, y);
+        }
+    }
+
+    public addChangeListener(listener: (x: number, y: number) => void) {
+        this.changeListeners.push(listener);
+    }
+
+    public removeChangeListener(listener: (x: number, y: number) => void) {
+        const i = this.changeListeners.indexOf(listener);
+        if (i !== -1) this.changeListeners.splice(i, 1);
+    }
+
+    private getWangId(wangSet: WangSet, x: number, y: number): WangId {
+        const tile = this.getTile(x, y);
+        const wangId = tile && tile.tileset === wangSet.tileset ? wangSet.getWangId(tile.id) : null;
+        return wangId ? WangSet.transformWangId(wangId, this.getTileFlip(x, y)) : new Array(8).fill(0);
+    }
+
+    public setTerrain(wangSet: WangSet, cells: TerrainCell[]) {
+        const firstGlobalId = this.tilemap.getFirstGlobalId(wangSet.tileset);
+        if (firstGlobalId === null) {
+            throw new Error("Tileset \"" + wangSet.tileset.name + "\" is not used by the tilemap");
+        }
+
+        const wangIds = new Map<string, WangId>();
+        const forced = new Map<string, boolean[]>();
+        const colors = new Map<string, number>();
+
+        for (const cell of cells) {
+            if (!this.contains(cell.x, cell.y)) continue;
+
+            const color = typeof cell.color === "string" ? wangSet.getColorIndex(cell.color) : cell.color;
+            if (!Number.isInteger(color) || color < 0 || color > wangSet.colors.length) {
+                throw new Error("Wang set \"" + wangSet.name + "\" has no color " + color);
+            }
+            const key = cell.x + "," + cell.y;
+            colors.set(key, color);
+            wangIds.set(key, new Array(8).fill(color));
+            forced.set(key, new Array(8).fill(true));
+        }
+
+        for (const [key, color] of colors) {
+            const [x, y] = key.split(",").map(Number);
+
+            for (const [dx, dy, indices] of TERRAIN_NEIGHBOURS) {
+                const neighbourKey = (x + dx) + "," + (y + dy);
+                if (colors.has(neighbourKey) || !this.contains(x + dx, y + dy)) continue;
+
+                if (!wangIds.has(neighbourKey)) {
+                    wangIds.set(neighbourKey, this.getWangId(wangSet, x + dx, y + dy));
+                    forced.set(neighbourKey, new Array(8).fill(false));
+                }
+
+                for (const i of indices) {
+                    wangIds.get(neighbourKey)![i] = color;
+                    forced.get(neighbourKey)![i] = true;
+                }
+            }
+        }
+
+        const changed: { x: number; y: number; }[] = [];
+        for (const [key, wangId] of wangIds) {
+            const [x, y] = key.split(",").map(Number);
+
+            const isEmpty = wangSet.getIndices().every(i => wangId[i] === 0);
+            const tileId = isEmpty ? null : wangSet.findTile(wangId, forced.get(key));
+            const gid = tileId === null ? 0 : firstGlobalId + tileId;
+
+            if (gid !== this.getGid(x, y)) {
+                this.setTile(x, y, gid);
+                changed.push({ x, y });
+            }
+        }
+
+        return changed;
+    }
 }
 
+type TilemapObjectShape = "rectangle" | "ellipse" | "point" | "polygon" | "polyline";
+
+const ELLIPSE_SEGMENTS = 16;
+
 interface TilemapObjectJSON {
+    id?: number;
     name: string;
     type: string;
     x: number;
@@ -74,10 +480,18 @@ interface TilemapObjectJSON {
     width?: number;
     height?: number;
     rotation?: number;
+    gid?: number;
+    visible?: boolean;
+    ellipse?: boolean;
+    point?: boolean;
+    polygon?: { x: number; y: number; }[];
+    polyline?: { x: number; y: number; }[];
     properties?: TilePropertyJSON[];
+    template?: string;
 }
 
 export class TilemapObject {
+    id: number;
     name: string;
     type: string;
     x: number;
@@ -85,9 +499,21 @@ export class TilemapObject {
     width: number;
     height: number;
     rotation: number;
+    visible: boolean;
+    gid: number;
+    tile: Tile | null;
+    flipH: boolean;
+    flipV: boolean;
+    flipD: boolean;
+    shape: TilemapObjectShape;
+    points: Vector[];
     properties?: TilePropertyJSON[];
+    template?: string;
+    private tilemap: Tilemap | null;
+    private propertyMap: Properties | null;
 
-    constructor(json: TilemapObjectJSON) {
+    constructor(json: TilemapObjectJSON, tilemap?: Tilemap) {
+        this.id = json.id || 0;
         this.name = json.name;
         this.type = json.type;
         this.x = json.x;
@@ -95,24 +521,213 @@ export class TilemapObject {
         this.width = json.width || 0;
         this.height = json.height || 0;
         this.rotation = math.degToRad(json.rotation || 0);
+        this.visible = json.visible ?? true;
+        this.gid = (json.gid || 0) & GID_MASK;
+        this.tile = this.gid && tilemap ? tilemap.getTileById(this.gid) : null;
+
+        const flip = Tilemap.getGidFlip(json.gid || 0);
+        this.flipH = flip.flipH;
+        this.flipV = flip.flipV;
+        this.flipD = flip.flipD;
+
+        this.shape = json.polygon ? "polygon" :
+            json.polyline ? "polyline" :
+            json.ellipse ? "ellipse" :
+            json.point ? "point" :
+            "rectangle";
+        this.points = (json.polygon || json.polyline || []).map(point => new Vector(point.x, point.y));
+
         this.properties = json.properties;
+        this.template = json.template;
+        this.tilemap = tilemap || null;
+        this.propertyMap = null;
+    }
+
+    public createColliders(scale: Vector = new Vector(1, 1), offset: Vector = new Vector(), projection?: (point: Vector) => Vector): Collider[] {
+        if (this.tile) return [];
+
+        const origin = new Vector(this.x, this.y);
+        const projectedOrigin = projection ? projection(origin) : origin;
+        const position = new Vector(projectedOrigin.x * scale.x, projectedOrigin.y * scale.y).add(offset);
+        const w = this.width * scale.x;
+        const h = this.height * scale.y;
+
+        // Projected shapes are rotated before the projection, so their colliders keep no angle
+        const angle = projection ? 0 : -this.rotation;
+        const toLocal = (point: Vector) => {
+            const local = projection ? projection(point.clone().rot(this.rotation).add(origin)).sub(projectedOrigin) : point;
+            return new Vector(local.x * scale.x, local.y * scale.y);
+        };
+
+        const createPolygon = (points: Vector[]) => {
+            let area = 0;
+            for (let i = 0; i < points.length; ++i) {
+                const p0 = points[i];
+                const p1 = points[(i + 1) % points.length];
+                area += p0.x * p1.y - p1.x * p0.y;
+            }
+            const collider = new PolygonCollider(area < 0 ? points.reverse() : points);
+            collider.position.copy(position);
+            collider.angle = angle;
+            return collider;
+        };
+
+        switch (this.shape) {
+            case "rectangle": {
+                if (w === 0 || h === 0) return [];
+                if (projection) {
+                    return [createPolygon([
+                        new Vector(0, 0),
+                        new Vector(this.width, 0),
+                        new Vector(this.width, this.height),
+                        new Vector(0, this.height)
+                    ].map(toLocal))];
+                }
+                const collider = new BoxCollider(w, h);
+                collider.position.copy(position);
+                collider.angle = -this.rotation;
+                return [collider];
+            }
+            case "ellipse": {
+                if (w === 0 || h === 0) return [];
+                if (w === h && !projection) {
+                    const collider = new CircleCollider(w * 0.5);
+                    collider.position.copy(new Vector(w * 0.5, h * 0.5).rot(this.rotation).add(position));
+                    return [collider];
+                }
+                const points: Vector[] = [];
+                for (let i = 0; i < ELLIPSE_SEGMENTS; ++i) {
+                    const t = i / ELLIPSE_SEGMENTS * Math.PI * 2;
+                    points.push(toLocal(new Vector((1 + Math.cos(t)) * this.width * 0.5, (1 + Math.sin(t)) * this.height * 0.5)));
+                }
+                return [createPolygon(points)];
+            }
+            case "polygon":
+                return [createPolygon(this.points.map(toLocal))];
+            case "polyline": {
+                const colliders: Collider[] = [];
+                for (let i = 0; i < this.points.length - 1; ++i) {
+                    colliders.push(createPolygon([toLocal(this.points[i]), toLocal(this.points[i + 1])]));
+                }
+                return colliders;
+            }
+            default:
+                return [];
+        }
+    }
+
+    public getProperties() {
+        if (!this.propertyMap) {
+            this.propertyMap = this.tilemap ? this.tilemap.createProperties(this.properties) : new Properties(this.properties);
+        }
+        return this.propertyMap;
     }
 
     public getProperty<T>(name: string): T {
-        return this.properties?.find(prop => prop.name === name)?.value as T;
+        return this.getProperties().get<T>(name) as T;
+    }
+
+    public toJSON(): TilemapObjectJSON {
+        const json: TilemapObjectJSON = {
+            id: this.id,
+            name: this.name,
+            type: this.type,
+            x: this.x,
+            y: this.y,
+            width: this.width,
+            height: this.height,
+            rotation: math.radToDeg(this.rotation),
+            visible: this.visible
+        };
+
+        if (this.gid) json.gid = getFlippedGid(this.gid, this);
+        if (this.template) json.template = this.template;
+        if (this.properties) json.properties = serializeProperties(this.properties);
+
+        switch (this.shape) {
+            case "ellipse":
+                json.ellipse = true;
+                break;
+            case "point":
+                json.point = true;
+                break;
+            case "polygon":
+                json.polygon = this.points.map(point => ({ x: point.x, y: point.y }));
+                break;
+            case "polyline":
+                json.polyline = this.points.map(point => ({ x: point.x, y: point.y }));
+                break;
+        }
+
+        return json;
     }
 }
 
 class ObjectLayer extends Layer {
-    private objects: TilemapObjectJSON[];
+    private objectsJSON: TilemapObjectJSON[];
+    private objects: TilemapObject[] | null;
 
     constructor(json: TilemapLayerJSON) {
         super(json);
-        this.objects = json.objects!;
+        this.objectsJSON = json.objects || [];
+        this.objects = null;
     }
 
     public getObjects() {
-        return this.objects.map(obj => new TilemapObject(obj));
+        if (!this.objects) {
+            this.objects = this.objectsJSON.map(obj => new TilemapObject(obj, this.tilemap));
+        }
+        return this.objects;
+    }
+
+    public toJSON(): TilemapLayerJSON {
+        return {
+            ...super.toJSON(),
+            draworder: this.renderOrder === "topdown" ? "topdown" : "index",
+            objects: this.getObjects().map(obj => obj.toJSON())
+        };
+    }
+}
+
+class ImageLayer extends Layer {
+    image: string;
+    imageWidth: number;
+    imageHeight: number;
+    repeatX: boolean;
+    repeatY: boolean;
+    tileset: Tileset | null;
+
+    constructor(json: TilemapLayerJSON) {
+        super(json);
+
+        this.image = json.image || "";
+        this.imageWidth = json.imagewidth || 0;
+        this.imageHeight = json.imageheight || 0;
+        this.repeatX = json.repeatx || false;
+        this.repeatY = json.repeaty || false;
+
+        // Layers without an image can't be drawn
+        this.tileset = !this.image ? null : new Tileset({
+            name: assets.getImageName(this.image),
+            tilewidth: this.imageWidth,
+            tileheight: this.imageHeight,
+            imagewidth: this.imageWidth,
+            imageheight: this.imageHeight,
+            tilecount: 1,
+            columns: 1,
+            image: this.image
+        });
+    }
+
+    public toJSON(): TilemapLayerJSON {
+        return {
+            ...super.toJSON(),
+            image: this.image,
+            imagewidth: this.imageWidth || undefined,
+            imageheight: this.imageHeight || undefined,
+            repeatx: this.repeatX,
+            repeaty: this.repeatY
+        };
     }
 }
 
@@ -121,7 +736,16 @@ export class Tilemap {
     height: number;
     tileWidth: number;
     tileHeight: number;
-    private tilesets: { tileset: Tileset; firstGlobalId: number; }[];
+    orientation: TilemapOrientation;
+    staggerAxis: TilemapStaggerAxis;
+    staggerIndex: TilemapStaggerIndex;
+    hexSideLength: number;
+    infinite: boolean;
+    parallaxOrigin: Vector;
+    url: string;
+    properties?: TilePropertyJSON[];
+    private propertyMap: Properties | null;
+    private tilesets: { tileset: Tileset; firstGlobalId: number; source?: string; url?: string; }[];
     private layers: Layer[];
 
     constructor(width: number, height: number, tileWidth: number, tileHeight: number) {
@@ -129,50 +753,185 @@ export class Tilemap {
         this.height = height;
         this.tileWidth = tileWidth;
         this.tileHeight = tileHeight;
+        this.orientation = "orthogonal";
+        this.staggerAxis = "y";
+        this.staggerIndex = "odd";
+        this.hexSideLength = 0;
+        this.infinite = false;
+        this.parallaxOrigin = new Vector();
+        this.url = "";
+        this.propertyMap = null;
         this.tilesets = [];
         this.layers = [];
     }
 
+    static getGidFlip(gid: number): TileFlip {
+        return {
+            flipH: (gid & FLIPPED_HORIZONTALLY_FLAG) !== 0,
+            flipV: (gid & FLIPPED_VERTICALLY_FLAG) !== 0,
+            flipD: (gid & FLIPPED_DIAGONALLY_FLAG) !== 0
+        };
+    }
+
     static async load(url: string, tilesetSources: Record<string, string>) {
-        const json = await assets.loadJson<TilemapJSON>(url);
-        const tilemap = new Tilemap(json.width, json.height, json.tilewidth, json.tileheight);
+        const json = tmx.isXml(url) ?
+            tmx.parseTilemap(await assets.loadXml(url)) :
+            await assets.loadJson<TilemapJSON>(url);
+        return Tilemap.fromJSON(json, url, tilesetSources);
+    }
 
-        for (const layer of json.layers) {
-            switch (layer.type) {
-                case "tilelayer":
-                    tilemap.addLayer(new TileLayer(layer));
-                    break;
-                case "objectgroup":
-                    tilemap.addLayer(new ObjectLayer(layer));
-                    break;
-            }
-        }
+    static async fromJSON(json: TilemapJSON, url: string = "", tilesetSources: Record<string, string> = {}) {
+        const tilemap = new Tilemap(json.width, json.height, json.tilewidth, json.tileheight);
+        tilemap.orientation = json.orientation || "orthogonal";
+        tilemap.staggerAxis = json.staggeraxis || "y";
+        tilemap.staggerIndex = json.staggerindex || "odd";
+        tilemap.hexSideLength = json.hexsidelength || 0;
+        tilemap.infinite = !!json.infinite;
+        tilemap.parallaxOrigin.set(json.parallaxoriginx || 0, json.parallaxoriginy || 0);
+        tilemap.url = url;
+        tilemap.properties = json.properties;
 
         for (let tilesetData of json.tilesets) {
             let tileset;
             if (tilesetData.source) {
-                const tokens = tilesetData.source.split(/(\/|\\\/)/);
-                const tilesetName = tokens[tokens.length - 1].split(".tsj")[0];
+                const tilesetName = Tilemap.getTilesetName(tilesetData.source);
 
                 if (!tilesetSources[tilesetName]) throw new Error("Source is missing for tileset: " + tilesetName);
 
                 tileset = await Tileset.load(tilesetSources[tilesetName]);
             } else {
                 tileset = new Tileset(tilesetData);
+                tileset.url = url;
             }
-            tilemap.tilesets.push({ tileset, firstGlobalId: tilesetData.firstgid });
+            tilemap.tilesets.push({
+                tileset,
+                firstGlobalId: tilesetData.firstgid,
+                source: tilesetData.source,
+                url: tilesetData.source ? assets.resolveUrl(url, tilesetData.source) : url
+            });
+        }
+
+        await tilemap.applyTemplates(json.layers, tilesetSources);
+
+        for (const layer of json.layers) {
+            const created = await Tilemap.createLayer(layer, url);
+            if (created) tilemap.addLayer(created);
         }
 
         return tilemap;
     }
 
+    private static getTilesetName(source: string) {
+        const tokens = source.split(/(\/|\\\/)/);
+        return tokens[tokens.length - 1].replace(/\.(tsj|json|tsx|xml)$/i, "");
+    }
+
+    private async applyTemplates(layers: TilemapLayerJSON[], tilesetSources: Record<string, string>) {
+        for (const layer of layers) {
+            if (layer.layers) {
+                await this.applyTemplates(layer.layers, tilesetSources);
+            }
+
+            const objects = layer.objects || [];
+            for (let i = 0; i < objects.length; ++i) {
+                if (!objects[i].template) continue;
+
+                const template = await Template.load(assets.resolveUrl(this.url, objects[i].template!));
+                const obj = template.apply(objects[i]);
+
+                if (obj.gid && objects[i].gid === undefined) {
+                    if (!template.tileset) {
+                        throw new Error("Template \"" + template.url + "\" has a tile object but no tileset");
+                    }
+                    const firstGlobalId = await this.addTemplateTileset(template, tilesetSources);
+                    obj.gid = (((obj.gid & GID_MASK) - template.tileset.firstgid + firstGlobalId) | (obj.gid & ~GID_MASK)) >>> 0;
+                }
+
+                objects[i] = obj;
+            }
+        }
+    }
+
+    private async addTemplateTileset(template: Template, tilesetSources: Record<string, string>) {
+        const tilesetData = template.tileset!;
+
+        // Tilesets are matched by the file they come from, as different files may share a name
+        const url = tilesetData.source ? assets.resolveUrl(template.url, tilesetData.source) : template.url;
+        const existing = this.tilesets.find(item => item.url === url);
+        if (existing) return existing.firstGlobalId;
+
+        let tileset;
+        if (tilesetData.source) {
+            const name = Tilemap.getTilesetName(tilesetData.source);
+            const source = !this.tilesets.some(item => item.tileset.name === name) && tilesetSources[name] || url;
+            tileset = await Tileset.load(source);
+        } else {
+            tileset = new Tileset(tilesetData);
+            tileset.url = template.url;
+        }
+
+        const loaded = this.tilesets.find(item => item.tileset === tileset);
+        if (loaded) return loaded.firstGlobalId;
+
+        const firstGlobalId = this.tilesets.reduce((max, item) => Math.max(max, item.firstGlobalId + item.tileset.getIdCount()), 1);
+        this.tilesets.push({ tileset, firstGlobalId, url });
+        return firstGlobalId;
+    }
+
+    private static async createLayer(json: TilemapLayerJSON, url: string): Promise<Layer | null> {
+        switch (json.type) {
+            case "tilelayer":
+                if (json.chunks) {
+                    for (const chunk of json.chunks) {
+                        chunk.data = await tileData.decode(chunk.data, json.encoding, json.compression);
+                    }
+                } else {
+                    json.data = await tileData.decode(json.data || [], json.encoding, json.compression);
+                }
+                return new TileLayer(json);
+            case "objectgroup":
+                return new ObjectLayer(json);
+            case "imagelayer":
+                // The image size is optional in hand-written maps, so it's read from the image itself
+                if (json.image && (!json.imagewidth || !json.imageheight)) {
+                    const image = await assets.loadImage(url ? assets.resolveUrl(url, json.image) : json.image);
+                    json.imagewidth = image.width;
+                    json.imageheight = image.height;
+                }
+                return new ImageLayer(json);
+            case "group": {
+                const group = new GroupLayer(json);
+                for (const child of json.layers || []) {
+                    const created = await Tilemap.createLayer(child, url);
+                    if (created) group.addLayer(created);
+                }
+                return group;
+            }
+            default:
+                return null;
+        }
+    }
+
     public addLayer(layer: Layer) {
-        layer.tilemap = this;
+        const setTilemap = (layer: Layer) => {
+            layer.tilemap = this;
+            if (layer instanceof GroupLayer) {
+                layer.getLayers().forEach(setTilemap);
+            }
+        };
+        setTilemap(layer);
         this.layers.push(layer);
     }
 
     public getTilesets() {
-        return this.tilesets.map((tileset) => tileset.tileset);
+        const tilesets = this.tilesets.map((tileset) => tileset.tileset);
+        for (const layer of this.getLayers()) {
+            const imageTileset = layer instanceof ImageLayer ? layer.tileset : null;
+            if (imageTileset && !tilesets.some(tileset => tileset.name === imageTileset.name)) {
+                tilesets.push(imageTileset);
+            }
+        }
+        return tilesets;
     }
 
     public getTilesetByName(name: string) {
@@ -184,14 +943,49 @@ export class Tilemap {
     }
 
     public getLayers() {
+        const layers: Layer[] = [];
+        const collect = (layer: Layer) => {
+            if (layer instanceof GroupLayer) {
+                layer.getLayers().forEach(collect);
+            } else {
+                layers.push(layer);
+            }
+        };
+        this.layers.forEach(collect);
+        return layers;
+    }
+
+    public getRootLayers() {
         return this.layers;
     }
 
-    public getLayerByName(name: string) {
-        return this.layers.find((layer) => layer.name === name) || null;
+    public getLayerByName(name: string): Layer | null {
+        if (name.includes("/")) {
+            let layers = this.layers;
+            let layer: Layer | null = null;
+            for (const token of name.split("/")) {
+                layer = layers.find(layer => layer.name === token) || null;
+                if (!layer) return null;
+                layers = layer instanceof GroupLayer ? layer.getLayers() : [];
+            }
+            return layer;
+        }
+
+        const find = (layers: Layer[]): Layer | null => {
+            for (const layer of layers) {
+                if (layer.name === name) return layer;
+                if (layer instanceof GroupLayer) {
+                    const found = find(layer.getLayers());
+                    if (found) return found;
+                }
+            }
+            return null;
+        };
+        return find(this.layers);
     }
 
     public getTileById(id: number) {
+        id &= GID_MASK;
         const tilesets = this.tilesets;
         for (let tileset of tilesets) {
             let tile = tileset.tileset.getTileById(id - tileset.firstGlobalId);
@@ -202,9 +996,261 @@ export class Tilemap {
         }
         return null;
     }
+
+    private getStaggerParams() {
+        const staggerX = this.staggerAxis === "x";
+        const tileWidth = this.tileWidth & ~1;
+        const tileHeight = this.tileHeight & ~1;
+        const sideLength = this.orientation === "hexagonal" ? this.hexSideLength : 0;
+        const sideLengthX = staggerX ? sideLength : 0;
+        const sideLengthY = staggerX ? 0 : sideLength;
+        const sideOffsetX = Math.floor((tileWidth - sideLengthX) / 2);
+        const sideOffsetY = Math.floor((tileHeight - sideLengthY) / 2);
+
+        return {
+            staggerX,
+            staggerEven: this.staggerIndex === "even",
+            tileWidth,
+            tileHeight,
+            sideLengthX,
+            sideLengthY,
+            columnWidth: sideOffsetX + sideLengthX,
+            rowHeight: sideOffsetY + sideLengthY
+        };
+    }
+
+    public isStaggered(index: number) {
+        return (Math.abs(index) % 2 === 1) !== (this.staggerIndex === "even");
+    }
+
+    public tileToScreen(x: number, y: number) {
+        switch (this.orientation) {
+            case "isometric":
+                return new Vector(
+                    (x - y - 1 + this.height) * this.tileWidth * 0.5,
+                    (x + y) * this.tileHeight * 0.5
+                );
+            case "staggered":
+            case "hexagonal": {
+                const p = this.getStaggerParams();
+                if (p.staggerX) {
+                    return new Vector(
+                        x * p.columnWidth,
+                        y * (p.tileHeight + p.sideLengthY) + (this.isStaggered(x) ? p.rowHeight : 0)
+                    );
+                }
+                return new Vector(
+                    x * (p.tileWidth + p.sideLengthX) + (this.isStaggered(y) ? p.columnWidth : 0),
+                    y * p.rowHeight
+                );
+            }
+            default:
+                return new Vector(x * this.tileWidth, y * this.tileHeight);
+        }
+    }
+
+    public pixelToScreen(x: number, y: number) {
+        switch (this.orientation) {
+            case "isometric":
+                // Isometric object coordinates measure both axes in tile heights
+                return new Vector(
+                    ((x - y) / this.tileHeight + this.height) * this.tileWidth * 0.5,
+                    (x + y) * 0.5
+                );
+            default:
+                return new Vector(x, y);
+        }
+    }
+
+    public screenToTile(x: number, y: number) {
+        switch (this.orientation) {
+            case "isometric": {
+                const sx = x / this.tileWidth - this.height * 0.5;
+                const sy = y / this.tileHeight;
+                return new Vector(Math.floor(sy + sx), Math.floor(sy - sx));
+            }
+            case "staggered":
+            case "hexagonal": {
+                const p = this.getStaggerParams();
+
+                let approxX: number;
+                let approxY: number;
+                if (p.staggerX) {
+                    approxX = Math.floor(x / p.columnWidth);
+                    approxY = Math.floor((y - (this.isStaggered(approxX) ? p.rowHeight : 0)) / (p.tileHeight + p.sideLengthY));
+                } else {
+                    approxY = Math.floor(y / p.rowHeight);
+                    approxX = Math.floor((x - (this.isStaggered(approxY) ? p.columnWidth : 0)) / (p.tileWidth + p.sideLengthX));
+                }
+
+                // Cells overlap their neighbours' bounding boxes, so pick the closest of the surrounding cells
+                let nearest = new Vector(approxX, approxY);
+                let minDistance = Infinity;
+                for (let i = approxY - 1; i <= approxY + 1; ++i) {
+                    for (let j = approxX - 1; j <= approxX + 1; ++j) {
+                        const center = this.getTileCenter(j, i);
+                        const dx = Math.abs(x - center.x);
+                        const dy = Math.abs(y - center.y);
+                        const distance = this.orientation === "staggered" ?
+                            dx / p.tileWidth + dy / p.tileHeight :
+                            dx * dx + dy * dy;
+
+                        if (distance < minDistance) {
+                            minDistance = distance;
+                            nearest = new Vector(j, i);
+                        }
+                    }
+                }
+                return nearest;
+            }
+            default:
+                return new Vector(Math.floor(x / this.tileWidth), Math.floor(y / this.tileHeight));
+        }
+    }
+
+    public toJSON(): TilemapJSON {
+        const layers = this.layers.map(layer => layer.toJSON());
+
+        let nextLayerId = 1;
+        const assignIds = (layers: TilemapLayerJSON[]) => {
+            for (const layer of layers) {
+                layer.id = nextLayerId++;
+                if (layer.layers) assignIds(layer.layers);
+            }
+        };
+        assignIds(layers);
+
+        let nextObjectId = 1;
+        for (const layer of this.getLayers()) {
+            if (layer instanceof ObjectLayer) {
+                for (const obj of layer.getObjects()) {
+                    nextObjectId = Math.max(nextObjectId, obj.id + 1);
+                }
+            }
+        }
+
+        const json: TilemapJSON = {
+            type: "map",
+            version: "1.10",
+            orientation: this.orientation,
+            renderorder: "right-down",
+            width: this.width,
+            height: this.height,
+            tilewidth: this.tileWidth,
+            tileheight: this.tileHeight,
+            infinite: this.infinite,
+            parallaxoriginx: this.parallaxOrigin.x,
+            parallaxoriginy: this.parallaxOrigin.y,
+            nextlayerid: nextLayerId,
+            nextobjectid: nextObjectId,
+            tilesets: this.tilesets.map(item => {
+                // External tilesets are referenced, embedded ones are written out in full
+                if (item.source || Tileset.cache.get(item.tileset.url) === item.tileset) {
+                    return {
+                        firstgid: item.firstGlobalId,
+                        source: item.source || assets.relativeUrl(this.url, item.tileset.url)
+                    } as TilemapTileset;
+                }
+                return { ...item.tileset.toJSON(), firstgid: item.firstGlobalId };
+            }),
+            layers
+        };
+
+        if (this.orientation === "staggered" || this.orientation === "hexagonal") {
+            json.staggeraxis = this.staggerAxis;
+            json.staggerindex = this.staggerIndex;
+        }
+        if (this.orientation === "hexagonal") {
+            json.hexsidelength = this.hexSideLength;
+        }
+        if (this.properties) {
+            json.properties = serializeProperties(this.properties);
+        }
+
+        return json;
+    }
+
+    public getTileCenter(x: number, y: number) {
+        return this.tileToScreen(x, y).add(new Vector(this.tileWidth * 0.5, this.tileHeight * 0.5));
+    }
+
+    public getTileRect(tile: Tile, x: number, y: number): TileRect {
+        const cell = this.tileToScreen(x, y);
+        const tileset = tile.tileset;
+
+        let width = tile.width;
+        let height = tile.height;
+        let top = cell.y + this.tileHeight - height;
+        let left = cell.x;
+
+        // Grid-sized tiles fill their cell, or are centered in it when keeping their aspect ratio
+        if (tileset.tileRenderSize === "grid") {
+            const fit = Math.min(this.tileWidth / width, this.tileHeight / height);
+            width = tileset.fillMode === "preserve-aspect-fit" ? width * fit : this.tileWidth;
+            height = tileset.fillMode === "preserve-aspect-fit" ? height * fit : this.tileHeight;
+            left = cell.x + (this.tileWidth - width) * 0.5;
+            top = cell.y + (this.tileHeight - height) * 0.5;
+        }
+
+        return {
+            x: left + tileset.tileOffset.x,
+            y: top + tileset.tileOffset.y,
+            width,
+            height
+        };
+    }
+
+    public getFirstGlobalId(tileset: Tileset) {
+        const item = this.tilesets.find(item => item.tileset === tileset);
+        return item ? item.firstGlobalId : null;
+    }
+
+    public getObjectById(id: number): TilemapObject | null {
+        for (const layer of this.getLayers()) {
+            if (layer instanceof ObjectLayer) {
+                const obj = layer.getObjects().find(obj => obj.id === id);
+                if (obj) return obj;
+            }
+        }
+        return null;
+    }
+
+    public createProperties(json?: TilePropertyJSON[]) {
+        return new Properties(json, {
+            baseUrl: this.url,
+            resolveObject: id => this.getObjectById(id)
+        });
+    }
+
+    public getProperties() {
+        if (!this.propertyMap) {
+            this.propertyMap = this.createProperties(this.properties);
+        }
+        return this.propertyMap;
+    }
+
+    public getProperty<T>(name: string): T {
+        return this.getProperties().get<T>(name) as T;
+    }
 }
 
 export type {
+    Layer,
+    GroupLayer,
     TileLayer,
-    ObjectLayer
+    TileLayerChunk,
+    TileLayerIntGridValue,
+    TileFlip,
+    TerrainCell,
+    ObjectLayer,
+    ImageLayer,
+    TilemapTileset,
+    TilemapLayerJSON,
+    TilemapChunkJSON,
+    TilemapObjectJSON,
+    TilemapObjectShape,
+    TilemapOrientation,
+    TilemapStaggerAxis,
+    TilemapStaggerIndex,
+    TilemapJSON
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { Color } from "./Color";
+import { Bounds } from "./common";
+import { TileRect, Tileset } from "./Tileset";
+import { Vector } from "./Vector";
+
+interface TilemapQuadParams {
+    tileset: Tileset;
+    width: number;
+    height: number;
+    tileWidth?: number;
+    tileHeight?: number;
+    zIndex?: number;
+}
+
+export interface TilemapQuadFlip {
+    flipH?: boolean;
+    flipV?: boolean;
+    flipD?: boolean;
+}
+
+export class TilemapQuad {
+    tileset: Tileset;
+    width: number;
+    height: number;
+    zIndex: number;
+    position: Vector;
+    tileSize: Vector;
+    tintColor: Color;
+    maskColor: Color;
+    data: Uint8Array<ArrayBuffer>;
+    private changes: TileRect | null;
+
+    constructor(params: TilemapQuadParams) {
+        if (params.tileset.isCollection()) {
+            throw new Error("Tileset \"" + params.tileset.name + "\" is an image collection, it can't be drawn as a tilemap quad");
+        }
+
+        this.tileset = params.tileset;
+        this.width = params.width;
+        this.height = params.height;
+        this.zIndex = params.zIndex || 0;
+        this.position = new Vector();
+        this.tileSize = new Vector(params.tileWidth || this.tileset.tileWidth, params.tileHeight || this.tileset.tileHeight);
+        this.tintColor = new Color(1, 1, 1, 1);
+        this.maskColor = new Color(0, 0, 0, 1);
+        // RGB holds the tile id + 1 (0 is an empty cell), A holds the flip flags
+        this.data = new Uint8Array(this.width * this.height * 4);
+        this.changes = null;
+    }
+
+    public contains(x: number, y: number) {
+        return x >= 0 && y >= 0 && x < this.width && y < this.height;
+    }
+
+    public setTile(x: number, y: number, tileId: number, flip: TilemapQuadFlip = {}) {
+        if (!this.contains(x, y)) {
+            throw new Error("Tile " + x + ", " + y + " is outside of the tilemap quad");
+        }
+
+        const value = tileId + 1;
+        const offset = (y * this.width + x) * 4;
+        this.data[offset] = value & 0xff;
+        this.data[offset + 1] = (value >> 8) & 0xff;
+        this.data[offset + 2] = (value >> 16) & 0xff;
+        this.data[offset + 3] = (flip.flipH ? 1 : 0) | (flip.flipV ? 2 : 0) | (flip.flipD ? 4 : 0);
+        this.markChanged(x, y);
+    }
+
+    public clearTile(x: number, y: number) {
+        if (!this.contains(x, y)) return;
+
+        const offset = (y * this.width + x) * 4;
+        if (!this.data[offset] && !this.data[offset + 1] && !this.data[offset + 2]) return;
+
+        this.data.fill(0, offset, offset + 4);
+        this.markChanged(x, y);
+    }
+
+    public getTileId(x: number, y: number) {
+        if (!this.contains(x, y)) return -1;
+
+        const offset = (y * this.width + x) * 4;
+        return (this.data[offset] | (this.data[offset + 1] << 8) | (this.data[offset + 2] << 16)) - 1;
+    }
+
+    private markChanged(x: number, y: number) {
+        if (!this.changes) {
+            this.changes = { x, y, width: 1, height: 1 };
+            return;
+        }
+
+        const minX = Math.min(this.changes.x, x);
+        const minY = Math.min(this.changes.y, y);
+        this.changes.width = Math.max(this.changes.x + this.changes.width, x + 1) - minX;
+        this.changes.height = Math.max(this.changes.y + this.changes.height, y + 1) - minY;
+        this.changes.x = minX;
+        this.changes.y = minY;
+    }
+
+    public takeChanges() {
+        const changes = this.changes;
+        this.changes = null;
+        return changes;
+    }
+
+    public getRegionData(rect: TileRect) {
+        if (rect.x === 0 && rect.width === this.width) {
+            return this.data.subarray(rect.y * this.width * 4, (rect.y + rect.height) * this.width * 4);
+        }
+
+        const rowSize = rect.width * 4;
+        const out = new Uint8Array(rowSize * rect.height);
+        for (let i = 0; i < rect.height; ++i) {
+            const start = ((rect.y + i) * this.width + rect.x) * 4;
+            out.set(this.data.subarray(start, start + rowSize), i * rowSize);
+        }
+        return out;
+    }
+
+    public getBounds(): Bounds {
+        return {
+            min: this.position.clone(),
+            max: new Vector(this.position.x + this.width * this.tileSize.x, this.position.y + this.height * this.tileSize.y)
+        };
+    }
+}
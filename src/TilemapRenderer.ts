@@ -1,17 +1,24 @@
 import { Animator } from "./Animator";
 import { assets } from "./assets";
+import { Backdrop } from "./Backdrop";
 import { Camera } from "./Camera";
 import { colliders } from "./Collider";
 import { Color } from "./Color";
+import { LdtkProject } from "./LdtkProject";
 import { Light } from "./Light";
 import { math } from "./math";
 import { matrix } from "./matrix";
+import { Properties, PropertyError } from "./Properties";
 import { createRenderer } from "./Renderer";
 import { Scene } from "./Scene";
 import { ShaderBuilder } from "./ShaderBuilder";
+import { Template } from "./Template";
 import { Sprite } from "./Sprite";
+import { tileData } from "./tileData";
 import { Tilemap } from "./Tilemap";
+import { TilemapQuad } from "./TilemapQuad";
 import { Tileset } from "./Tileset";
 import { Vector } from "./Vector";
+import { World } from "./World";
 
-export { Sprite, Scene, Camera, Tileset, Vector, Color, Tilemap, Animator, ShaderBuilder, Light, colliders, assets, matrix, math, createRenderer };
\ No newline at end of file
+export { Sprite, Scene, Camera, Tileset, Template, Vector, Color, Tilemap, TilemapQuad, World, Animator, Backdrop, Properties, PropertyError, LdtkProject, ShaderBuilder, Light, colliders, assets, tileData, matrix, math, createRenderer };
\ No newline at end of file
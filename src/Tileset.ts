@@ -1,6 +1,12 @@
 import { assets } from "./assets";
+import { Properties } from "./Properties";
+import { TilemapObject, TilemapObjectJSON } from "./Tilemap";
+import { tmx } from "./tmx";
+import { WangSet, WangSetJSON } from "./WangSet";
 
-export type TilePropertyJSON = { name: string; value: boolean | number | string; };
+export type TilePropertyType = "string" | "int" | "float" | "bool" | "color" | "file" | "object" | "class";
+export type TilePropertyValue = boolean | number | string | { [name: string]: TilePropertyValue; };
+export type TilePropertyJSON = { name: string; type?: TilePropertyType; propertytype?: string; value: TilePropertyValue; };
 
 export interface TileAnimationFrameJSON {
     duration: number; // in ms
@@ -13,10 +19,22 @@ export interface TileDataJSON {
     id: number;
     properties?: TilePropertyJSON[];
     animation?: TileAnimation;
+    objectgroup?: { objects: TilemapObjectJSON[]; };
+    image?: string;
+    imagewidth?: number;
+    imageheight?: number;
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
 }
 
+export type TileRenderSize = "tile" | "grid";
+export type TileFillMode = "stretch" | "preserve-aspect-fit";
+
 export interface TilesetJSON {
     name: string;
+    image?: string;
     imagewidth: number;
     imageheight: number;
     tilewidth: number;
@@ -26,6 +44,10 @@ export interface TilesetJSON {
     tiles?: TileDataJSON[];
     margin?: number;
     spacing?: number;
+    wangsets?: WangSetJSON[];
+    tileoffset?: { x: number; y: number; };
+    tilerendersize?: TileRenderSize;
+    fillmode?: TileFillMode;
 }
 
 export class Tile {
@@ -34,7 +56,12 @@ export class Tile {
     y: number;
     properties?: TilePropertyJSON[];
     animation?: TileAnimation;
+    image?: string;
+    width: number;
+    height: number;
+    collisionObjects: TilemapObjectJSON[];
     tileset: Tileset;
+    private propertyMap: Properties | null;
 
     constructor(tileset: Tileset, id: number, x: number, y: number, tileData?: TileDataJSON) {
         this.tileset = tileset;
@@ -43,10 +70,26 @@ export class Tile {
         this.y = y;
         this.properties = tileData?.properties;
         this.animation = tileData?.animation;
+        this.image = tileData?.image;
+        this.width = tileData?.width ?? tileData?.imagewidth ?? tileset.tileWidth;
+        this.height = tileData?.height ?? tileData?.imageheight ?? tileset.tileHeight;
+        this.collisionObjects = tileData?.objectgroup?.objects || [];
+        this.propertyMap = null;
+    }
+
+    public getCollisionShapes() {
+        return this.collisionObjects.map(obj => new TilemapObject(obj));
+    }
+
+    public getProperties() {
+        if (!this.propertyMap) {
+            this.propertyMap = new Properties(this.properties, { baseUrl: this.tileset.url });
+        }
+        return this.propertyMap;
     }
 
     public getProperty<T>(name: string): T {
-        return this.properties?.find(prop => prop.name === name)?.value as T;
+        return this.getProperties().get<T>(name) as T;
     }
 }
 
@@ -57,10 +100,19 @@ export interface TilesetRegion {
     height?: number;
 }
 
+export interface TileRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
 export class Tileset {
     static cache = new Map<string, Tileset>();
 
     name: string;
+    url: string;
+    image: string;
     imageWidth: number;
     imageHeight: number;
     tileWidth: number;
@@ -69,10 +121,17 @@ export class Tileset {
     tileCount: number;
     margin: number;
     spacing: number;
+    tileOffset: { x: number; y: number; };
+    tileRenderSize: TileRenderSize;
+    fillMode: TileFillMode;
     tiledata: Map<number, TileDataJSON>;
+    wangSets: WangSet[];
+    private atlasRects: Map<number, TileRect> | null;
 
     constructor(json: TilesetJSON) {
         this.name = json.name;
+        this.url = "";
+        this.image = json.image || "";
         this.imageWidth = json.imagewidth;
         this.imageHeight = json.imageheight;
         this.tileWidth = json.tilewidth;
@@ -81,6 +140,9 @@ export class Tileset {
         this.tileCount = json.tilecount;
         this.margin = json.margin || 0;
         this.spacing = json.spacing || 0;
+        this.tileOffset = { x: json.tileoffset?.x || 0, y: json.tileoffset?.y || 0 };
+        this.tileRenderSize = json.tilerendersize || "tile";
+        this.fillMode = json.fillmode || "stretch";
         this.tiledata = new Map();
 
         if (json.tiles) {
@@ -88,12 +150,94 @@ export class Tileset {
                 this.tiledata.set(item.id, item);
             }
         }
+
+        this.wangSets = (json.wangsets || []).map(wangSet => new WangSet(this, wangSet));
+
+        this.atlasRects = null;
+        if (!json.image && json.tiles?.some(tile => tile.image)) {
+            this.packAtlas();
+        }
+    }
+
+    private packAtlas() {
+        // Tiles of image collections are packed into rows of a single atlas, tallest first
+        const tiles = Array.from(this.tiledata.values())
+            .filter(tile => tile.image)
+            .map(tile => new Tile(this, tile.id, tile.id, 0, tile))
+            .sort((a, b) => b.height - a.height);
+
+        const area = tiles.reduce((sum, tile) => sum + tile.width * tile.height, 0);
+        const minWidth = Math.max(Math.ceil(Math.sqrt(area)), ...tiles.map(tile => tile.width));
+        let width = 1;
+        while (width < minWidth) width *= 2;
+
+        this.atlasRects = new Map();
+        let x = 0, y = 0, rowHeight = 0;
+        for (const tile of tiles) {
+            if (x + tile.width > width) {
+                x = 0;
+                y += rowHeight;
+                rowHeight = 0;
+            }
+            this.atlasRects.set(tile.id, { x, y, width: tile.width, height: tile.height });
+            x += tile.width;
+            rowHeight = Math.max(rowHeight, tile.height);
+        }
+
+        this.imageWidth = width;
+        this.imageHeight = y + rowHeight;
+    }
+
+    // Ids of image collections can have gaps, so the next free id may be past the tile count
+    public getIdCount() {
+        if (!this.atlasRects) return this.tileCount;
+
+        let count = this.tileCount;
+        for (const id of this.tiledata.keys()) {
+            count = Math.max(count, id + 1);
+        }
+        return count;
+    }
+
+    public isCollection() {
+        return this.atlasRects !== null;
+    }
+
+    public getAtlasRect(id: number) {
+        return this.atlasRects?.get(id) || null;
+    }
+
+    public getRegionRect(region: TilesetRegion): TileRect {
+        if (this.atlasRects) {
+            return this.atlasRects.get(region.x) || { x: 0, y: 0, width: 0, height: 0 };
+        }
+
+        return {
+            x: region.x * (this.tileWidth + this.spacing) + this.margin,
+            y: region.y * (this.tileHeight + this.spacing) + this.margin,
+            width: this.tileWidth + ((region.width || 1) - 1) * (this.tileWidth + this.spacing),
+            height: this.tileHeight + ((region.height || 1) - 1) * (this.tileHeight + this.spacing)
+        };
+    }
+
+    public getRegionSize(region: TilesetRegion) {
+        const rect = this.atlasRects?.get(region.x);
+        if (rect) return { x: rect.width, y: rect.height };
+
+        return {
+            x: this.tileWidth * (region.width || 1),
+            y: this.tileHeight * (region.height || 1)
+        };
     }
 
     public static async load(url: string): Promise<Tileset> {
         if (!this.cache.has(url)) {
-            const json = await assets.loadJson<TilesetJSON>(url);
-            this.cache.set(url, new Tileset(json));
+            const json = tmx.isXml(url) ?
+                tmx.parseTileset(await assets.loadXml(url)) :
+                await assets.loadJson<TilesetJSON>(url);
+            const tileset = new Tileset(json);
+            tileset.url = url;
+            this.cache.set(url, tileset);
         }
         return this.cache.get(url)!;
     }
@@ -113,6 +257,9 @@ export class Tileset {
     }
 
     public getTile(x: number, y: number) {
+        // Tiles of image collections are addressed by their id in the first row
+        if (this.atlasRects) return y === 0 ? this.getTileById(x) : null;
+
         if (x < 0 || x >= this.columns || y < 0 || y >= Math.ceil(this.tileCount / this.columns)) return null;
 
         const id = y * this.columns + x;
@@ -123,6 +270,11 @@ export class Tileset {
     }
 
     public getTileById(id: number) {
+        if (this.atlasRects) {
+            const data = this.tiledata.get(id);
+            return data?.image ? new Tile(this, id, id, 0, data) : null;
+        }
+
         if (id >= this.tileCount || id < 0) return null;
 
         const x = id % this.columns;
@@ -133,7 +285,49 @@ export class Tileset {
         return new Tile(this, id, x, y, data);
     }
 
+    public toJSON(): TilesetJSON {
+        const json: TilesetJSON = {
+            name: this.name,
+            image: this.image || undefined,
+            imagewidth: this.atlasRects ? 0 : this.imageWidth,
+            imageheight: this.atlasRects ? 0 : this.imageHeight,
+            tilewidth: this.tileWidth,
+            tileheight: this.tileHeight,
+            columns: this.columns,
+            tilecount: this.tileCount,
+            margin: this.margin,
+            spacing: this.spacing
+        };
+        if (this.tileOffset.x || this.tileOffset.y) json.tileoffset = { ...this.tileOffset };
+        if (this.tileRenderSize !== "tile") json.tilerendersize = this.tileRenderSize;
+        if (this.fillMode !== "stretch") json.fillmode = this.fillMode;
+        if (this.tiledata.size) json.tiles = Array.from(this.tiledata.values());
+        if (this.wangSets.length) json.wangsets = this.wangSets.map(wangSet => wangSet.toJSON());
+        return json;
+    }
+
+    public async loadImages() {
+        const images: Record<string, HTMLImageElement> = {};
+        const resolve = (image: string) => this.url ? assets.resolveUrl(this.url, image) : image;
+
+        if (this.image) {
+            images[this.name] = await assets.loadImage(resolve(this.image));
+        }
+        for (const tile of this.tiledata.values()) {
+            if (tile.image) {
+                images[assets.getImageName(tile.image)] = await assets.loadImage(resolve(tile.image));
+            }
+        }
+        return images;
+    }
+
+    public getWangSetByName(name: string) {
+        return this.wangSets.find(wangSet => wangSet.name === name) || null;
+    }
+
     public getTileXY(id: number) {
+        if (this.atlasRects) return { x: id, y: 0 };
+
         const x = id % this.columns;
         const y = Math.floor(id / this.columns);
         return { x, y };
@@ -0,0 +1,131 @@
+import { TileFlip } from "./Tilemap";
+import { TilePropertyJSON, Tileset } from "./Tileset";
+
+export type WangSetType = "corner" | "edge" | "mixed";
+
+// Wang IDs list the colors at top, top-right, right, bottom-right, bottom, bottom-left, left and top-left
+export type WangId = number[];
+
+export interface WangColorJSON {
+    name: string;
+    color: string;
+    tile: number;
+    probability?: number;
+    properties?: TilePropertyJSON[];
+}
+
+export interface WangTileJSON {
+    tileid: number;
+    wangid: WangId;
+}
+
+export interface WangSetJSON {
+    name: string;
+    type: WangSetType;
+    tile: number;
+    colors?: WangColorJSON[];
+    wangtiles?: WangTileJSON[];
+    properties?: TilePropertyJSON[];
+}
+
+const CORNER_INDICES = [1, 3, 5, 7];
+const EDGE_INDICES = [0, 2, 4, 6];
+const ALL_INDICES = [0, 1, 2, 3, 4, 5, 6, 7];
+const DIRECTIONS = [[0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1]];
+
+export class WangSet {
+    name: string;
+    type: WangSetType;
+    tile: number;
+    colors: WangColorJSON[];
+    tileset: Tileset;
+    properties?: TilePropertyJSON[];
+    private wangIds: Map<number, WangId>;
+
+    constructor(tileset: Tileset, json: WangSetJSON) {
+        this.tileset = tileset;
+        this.name = json.name;
+        this.type = json.type || "corner";
+        this.tile = json.tile ?? -1;
+        this.colors = json.colors || [];
+        this.properties = json.properties;
+
+        this.wangIds = new Map();
+        for (const wangTile of json.wangtiles || []) {
+            this.wangIds.set(wangTile.tileid, wangTile.wangid);
+        }
+    }
+
+    public getIndices() {
+        switch (this.type) {
+            case "corner": return CORNER_INDICES;
+            case "edge": return EDGE_INDICES;
+            default: return ALL_INDICES;
+        }
+    }
+
+    public getColorIndex(name: string) {
+        const index = this.colors.findIndex(color => color.name === name);
+        if (index === -1) {
+            throw new Error("Wang set \"" + this.name + "\" has no color \"" + name + "\"");
+        }
+        return index + 1;
+    }
+
+    public getWangId(tileId: number): WangId | null {
+        return this.wangIds.get(tileId) || null;
+    }
+
+    public static transformWangId(wangId: WangId, flip: TileFlip): WangId {
+        const result: WangId = new Array(8).fill(0);
+        for (let i = 0; i < 8; ++i) {
+            let [x, y] = DIRECTIONS[i];
+            if (flip.flipD) [x, y] = [y, x];
+            if (flip.flipH) x = -x;
+            if (flip.flipV) y = -y;
+            result[DIRECTIONS.findIndex(dir => dir[0] === x && dir[1] === y)] = wangId[i];
+        }
+        return result;
+    }
+
+    public toJSON(): WangSetJSON {
+        const json: WangSetJSON = {
+            name: this.name,
+            type: this.type,
+            tile: this.tile,
+            colors: this.colors,
+            wangtiles: Array.from(this.wangIds, ([tileid, wangid]) => ({ tileid, wangid }))
+        };
+        if (this.properties) json.properties = this.properties;
+        return json;
+    }
+
+    public getTileIds() {
+        return Array.from(this.wangIds.keys());
+    }
+
+    public findTile(wangId: WangId, forced: boolean[] = []): number | null {
+        const indices = this.getIndices();
+
+        let bestScore = Infinity;
+        let best: number[] = [];
+        for (const [tileId, tileWangId] of this.wangIds) {
+            let score = 0;
+            for (const i of indices) {
+                if (tileWangId[i] !== wangId[i]) {
+                    score += forced[i] ? 100 : 1;
+                }
+            }
+
+            if (score < bestScore) {
+                bestScore = score;
+                best = [tileId];
+            } else if (score === bestScore) {
+                best.push(tileId);
+            }
+        }
+
+        if (!best.length) return null;
+        return best[Math.floor(Math.random() * best.length)];
+    }
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Scene } from "./Scene";
+import { Vector } from "./Vector";
+import { World, WorldJSON } from "./World";
+
+const pattern = {
+    regexp: "map_(-?\\d+)_(-?\\d+)\\.tmj",
+    multiplierX: 320,
+    multiplierY: 240,
+    offsetX: -160
+};
+
+describe("World", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("creates maps from file names matching the patterns", () => {
+        const json: WorldJSON = {
+            maps: [{ fileName: "map_1_0.tmj", x: 1000, y: 0, width: 100, height: 50 }],
+            patterns: [pattern]
+        };
+        const world = new World(json, "worlds/main.world", ["map_0_0.tmj", "map_-1_2.tmj", "map_1_0.tmj", "readme.txt"]);
+
+        expect(world.maps).toEqual([
+            { fileName: "map_1_0.tmj", url: "worlds/map_1_0.tmj", x: 1000, y: 0, width: 100, height: 50 },
+            { fileName: "map_0_0.tmj", url: "worlds/map_0_0.tmj", x: -160, y: 0, width: 320, height: 240 },
+            { fileName: "map_-1_2.tmj", url: "worlds/map_-1_2.tmj", x: -480, y: 480, width: 320, height: 240 }
+        ]);
+    });
+
+    it("uses the pattern's map size and skips patterns without two groups", () => {
+        const world = new World({
+            patterns: [
+                { regexp: "level(\\d+)\\.tmj", multiplierX: 100, multiplierY: 100 },
+                { ...pattern, mapWidth: 200, mapHeight: 100 }
+            ]
+        }, "", ["level1.tmj", "map_2_1.tmj"]);
+
+        expect(world.maps).toEqual([
+            { fileName: "map_2_1.tmj", url: "map_2_1.tmj", x: 480, y: 240, width: 200, height: 100 }
+        ]);
+    });
+
+    it("finds maps by position and bounds", () => {
+        const world = new World({ patterns: [pattern] }, "", ["map_0_0.tmj", "map_1_0.tmj"]);
+        const [first, second] = world.maps;
+
+        expect(world.getMapAt(-160, 0)).toBe(first);
+        expect(world.getMapAt(160, 239)).toBe(second);
+        expect(world.getMapAt(160, 240)).toBeNull();
+        expect(world.getMapsInBounds({ min: new Vector(0, 0), max: new Vector(100, 100) })).toEqual([first]);
+        expect(world.getMapsInBounds({ min: new Vector(100, 0), max: new Vector(200, 100) })).toEqual([first, second]);
+    });
+
+    it("adds maps at their offset, scaled by the tile size", async () => {
+        vi.stubGlobal("fetch", async () => ({
+            json: async () => ({ width: 10, height: 5, tilewidth: 16, tileheight: 16, tilesets: [], layers: [] })
+        }));
+
+        const world = new World({ maps: [{ fileName: "a.tmj", x: 320, y: 160 }] });
+        const offsets: Vector[] = [];
+        const scene = {
+            addTilemap: (_tilemap: unknown, config: { offset: Vector; }) => {
+                offsets.push(config.offset);
+                return { remove: () => { } };
+            }
+        } as unknown as Scene;
+
+        const map = world.maps[0];
+        await world.addMap(scene, map, {}, { tileWidth: 32, tileHeight: 32 });
+
+        expect(offsets).toEqual([new Vector(640, 320)]);
+        expect(map).toMatchObject({ width: 160, height: 80 });
+        expect(world.isMapAdded(map)).toBe(true);
+
+        world.removeMap(map);
+        expect(world.isMapAdded(map)).toBe(false);
+    });
+});
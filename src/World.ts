@@ -0,0 +1,171 @@
+import { assets } from "./assets";
+import { Camera } from "./Camera";
+import { Bounds, overlaps } from "./common";
+import { Scene, SceneAddTilemapConfig } from "./Scene";
+import { Tilemap } from "./Tilemap";
+import { Vector } from "./Vector";
+
+export interface WorldMapJSON {
+    fileName: string;
+    x: number;
+    y: number;
+    width?: number;
+    height?: number;
+}
+
+export interface WorldPatternJSON {
+    regexp: string;
+    multiplierX: number;
+    multiplierY: number;
+    offsetX?: number;
+    offsetY?: number;
+    mapWidth?: number;
+    mapHeight?: number;
+}
+
+export interface WorldJSON {
+    type?: "world";
+    maps?: WorldMapJSON[];
+    patterns?: WorldPatternJSON[];
+    onlyShowAdjacentMaps?: boolean;
+}
+
+type WorldMapContent = ReturnType<Scene["addTilemap"]>;
+
+export interface WorldMap {
+    fileName: string;
+    url: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export class World {
+    url: string;
+    maps: WorldMap[];
+    private tilemaps: Map<WorldMap, Promise<Tilemap>>;
+    private added: Map<WorldMap, Promise<WorldMapContent | null>>;
+    private contents: Map<WorldMap, WorldMapContent>;
+
+    constructor(json: WorldJSON, url: string = "", fileNames: string[] = []) {
+        this.url = url;
+        this.tilemaps = new Map();
+        this.added = new Map();
+        this.contents = new Map();
+
+        const createMap = (fileName: string, x: number, y: number, width: number, height: number): WorldMap => ({
+            fileName,
+            url: assets.resolveUrl(url, fileName),
+            x,
+            y,
+            width,
+            height
+        });
+
+        this.maps = (json.maps || []).map(map => createMap(map.fileName, map.x, map.y, map.width || 0, map.height || 0));
+
+        // Patterns match files of the world's directory, which can't be listed over http, so the file names are passed in
+        for (const pattern of json.patterns || []) {
+            const regexp = new RegExp(pattern.regexp);
+            for (const fileName of fileNames) {
+                const match = regexp.exec(fileName);
+                if (!match || match.length < 3 || this.maps.some(map => map.fileName === fileName)) continue;
+
+                this.maps.push(createMap(
+                    fileName,
+                    Number(match[1]) * pattern.multiplierX + (pattern.offsetX || 0),
+                    Number(match[2]) * pattern.multiplierY + (pattern.offsetY || 0),
+                    pattern.mapWidth ?? pattern.multiplierX,
+                    pattern.mapHeight ?? pattern.multiplierY
+                ));
+            }
+        }
+    }
+
+    public static async load(url: string, fileNames: string[] = []): Promise<World> {
+        return new World(await assets.loadJson<WorldJSON>(url), url, fileNames);
+    }
+
+    public getMapBounds(map: WorldMap): Bounds {
+        return {
+            min: new Vector(map.x, map.y),
+            max: new Vector(map.x + map.width, map.y + map.height)
+        };
+    }
+
+    public getMapsInBounds(bounds: Bounds) {
+        return this.maps.filter(map => overlaps(this.getMapBounds(map), bounds));
+    }
+
+    public getMapAt(x: number, y: number) {
+        return this.maps.find(map => x >= map.x && y >= map.y && x < map.x + map.width && y < map.y + map.height) || null;
+    }
+
+    public loadMap(map: WorldMap, tilesetSources: Record<string, string>): Promise<Tilemap> {
+        if (!this.tilemaps.has(map)) {
+            this.tilemaps.set(map, Tilemap.load(map.url, tilesetSources).then(tilemap => {
+                map.width = map.width || tilemap.width * tilemap.tileWidth;
+                map.height = map.height || tilemap.height * tilemap.tileHeight;
+                return tilemap;
+            }));
+        }
+        return this.tilemaps.get(map)!;
+    }
+
+    public isMapAdded(map: WorldMap) {
+        return this.added.has(map);
+    }
+
+    public async addMap(scene: Scene, map: WorldMap, tilesetSources: Record<string, string>, config: SceneAddTilemapConfig = {}) {
+        const pending = this.added.get(map);
+        if (pending) return pending;
+
+        // The map may be removed, or removed and added again, while it is loading, so only the current add may add it to the scene
+        const added: Promise<WorldMapContent | null> = this.loadMap(map, tilesetSources).then(tilemap => {
+            if (this.added.get(map) !== added) return null;
+
+            const scaleX = (config.tileWidth || tilemap.tileWidth) / tilemap.tileWidth;
+            const scaleY = (config.tileHeight || tilemap.tileHeight) / tilemap.tileHeight;
+            const content = scene.addTilemap(tilemap, {
+                ...config,
+                offset: new Vector(map.x * scaleX, map.y * scaleY)
+            });
+            this.contents.set(map, content);
+            return content;
+        }, error => {
+            if (this.added.get(map) === added) this.added.delete(map);
+            throw error;
+        });
+        this.added.set(map, added);
+        return added;
+    }
+
+    public async addMapsInBounds(scene: Scene, bounds: Bounds, tilesetSources: Record<string, string>, config: SceneAddTilemapConfig = {}) {
+        const maps = this.getMapsInBounds(bounds).filter(map => !this.added.has(map));
+        return Promise.all(maps.map(map => this.addMap(scene, map, tilesetSources, config)));
+    }
+
+    public removeMap(map: WorldMap) {
+        const content = this.contents.get(map);
+        this.added.delete(map);
+        this.contents.delete(map);
+        if (!content) return;
+
+        content.remove();
+    }
+
+    public update(camera: Camera) {
+        for (const content of this.contents.values()) {
+            content.update(camera);
+        }
+    }
+
+    public removeMapsOutsideBounds(bounds: Bounds) {
+        for (const map of Array.from(this.added.keys())) {
+            if (!overlaps(this.getMapBounds(map), bounds)) {
+                this.removeMap(map);
+            }
+        }
+    }
+}
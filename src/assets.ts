@@ -24,8 +24,77 @@ export const assets = (() => {
         }
     };
 
+    const loadText = async (url: string): Promise<string> => {
+        try {
+            const res = await fetch(url);
+            if (!res.ok) throw new Error();
+
+            return await res.text();
+        } catch {
+            throw new Error(`Failed to load text: ${url}`);
+        }
+    };
+
+    const loadXml = async (url: string): Promise<Document> => {
+        const text = await loadText(url);
+        const doc = new DOMParser().parseFromString(text, "application/xml");
+
+        if (doc.querySelector("parsererror")) {
+            throw new Error(`Failed to parse xml: ${url}`);
+        }
+
+        return doc;
+    };
+
+    const resolveUrl = (baseUrl: string, url: string) => {
+        if (/^([a-z][a-z0-9+.-]*:|\/)/i.test(url)) {
+            return url;
+        }
+
+        const base = baseUrl.split(/[?#]/)[0];
+
+        // Dot segments are removed, so that a file referenced from different directories resolves to the same url
+        const parts: string[] = [];
+        for (const part of (base.substring(0, base.lastIndexOf("/") + 1) + url).split("/")) {
+            if (part === ".") continue;
+            if (part === ".." && parts.length && parts[parts.length - 1] !== ".." && parts[parts.length - 1] !== "") {
+                parts.pop();
+            } else {
+                parts.push(part);
+            }
+        }
+        return parts.join("/");
+    };
+
+    const relativeUrl = (baseUrl: string, url: string) => {
+        const getOrigin = (url: string) => /^([a-z][a-z0-9+.-]*:\/\/[^/]*|\/)?/i.exec(url)![0];
+        if (getOrigin(url) !== getOrigin(baseUrl)) {
+            return url;
+        }
+
+        const baseDirs = baseUrl.split(/[?#]/)[0].split("/").slice(0, -1);
+        const parts = url.split("/");
+
+        let common = 0;
+        while (common < baseDirs.length && common < parts.length - 1 && baseDirs[common] === parts[common]) {
+            ++common;
+        }
+
+        return "../".repeat(baseDirs.length - common) + parts.slice(common).join("/");
+    };
+
+    const getImageName = (url: string) => {
+        const tokens = url.split(/[?#]/)[0].split(/[\/\\]/);
+        return tokens[tokens.length - 1].replace(/\.[^.]*$/, "");
+    };
+
     return {
+        getImageName,
         loadImage,
-        loadJson
+        loadJson,
+        loadText,
+        loadXml,
+        relativeUrl,
+        resolveUrl
     }
-})();
\ No newline at end of file
+})();
@@ -1,6 +1,7 @@
 import { CircleCollider, Collider, PolygonCollider } from "./Collider";
 import { Light } from "./Light";
 import { Sprite } from "./Sprite";
+import { TileAnimation, Tileset } from "./Tileset";
 import { Vector } from "./Vector";
 
 export const geometry = (() => {
@@ -18,7 +19,7 @@ export const geometry = (() => {
         1, -1, 1, 1,
     ]);
 
-    const spriteStride = 68;
+    const spriteStride = 72;
 
     const createSpritesData = (sprites: Sprite[], instanced: boolean = false) => {
         const count = instanced ? 1 : 4;
@@ -36,10 +37,7 @@ export const geometry = (() => {
 
             const angle = sprite.angle;
 
-            const regionX = sprite.tilesetRegion.x * (sprite.tileset.tileWidth + sprite.tileset.spacing) + sprite.tileset.margin;
-            const regionY = sprite.tilesetRegion.y * (sprite.tileset.tileHeight + sprite.tileset.spacing) + sprite.tileset.margin;
-            const regionW = sprite.tileset.tileWidth + ((sprite.tilesetRegion.width || 1) - 1) * (sprite.tileset.tileWidth + sprite.tileset.spacing);
-            const regionH = sprite.tileset.tileHeight + ((sprite.tilesetRegion.height || 1) - 1) * (sprite.tileset.tileHeight + sprite.tileset.spacing);
+            const region = sprite.tileset.getRegionRect(sprite.tilesetRegion);
 
             for (let i = 0; i < count; ++i) {
                 view.setFloat32(offset, posX, true);
@@ -48,10 +46,10 @@ export const geometry = (() => {
                 view.setFloat32(offset + 12, scaleY, true);
                 view.setFloat32(offset + 16, angle, true);
 
-                view.setUint16(offset + 20, regionX, true);
-                view.setUint16(offset + 22, regionY, true);
-                view.setUint16(offset + 24, regionW, true);
-                view.setUint16(offset + 26, regionH, true);
+                view.setUint16(offset + 20, region.x, true);
+                view.setUint16(offset + 22, region.y, true);
+                view.setUint16(offset + 24, region.width, true);
+                view.setUint16(offset + 26, region.height, true);
 
                 view.setFloat32(offset + 28, sprite.tintColor.r, true);
                 view.setFloat32(offset + 32, sprite.tintColor.g, true);
@@ -66,6 +64,11 @@ export const geometry = (() => {
                 view.setFloat32(offset + 60, sprite.offset.x, true);
                 view.setFloat32(offset + 64, sprite.offset.y, true);
 
+                view.setUint8(offset + 68, sprite.flipH ? 1 : 0);
+                view.setUint8(offset + 69, sprite.flipV ? 1 : 0);
+                view.setUint8(offset + 70, sprite.flipD ? 1 : 0);
+                view.setUint8(offset + 71, sprite.animated ? 1 : 0);
+
                 offset += stride;
             }
         }
@@ -179,11 +182,95 @@ export const geometry = (() => {
         return offset;
     }
 
+    const getSpriteRanges = (sprites: Sprite[], indices: Map<Sprite, number>) => {
+        const sorted = sprites
+            .filter(sprite => indices.has(sprite))
+            .sort((a, b) => indices.get(a)! - indices.get(b)!);
+
+        const ranges: { start: number; sprites: Sprite[]; }[] = [];
+        for (const sprite of sorted) {
+            const index = indices.get(sprite)!;
+            const last = ranges[ranges.length - 1];
+            if (last && last.start + last.sprites.length === index) {
+                last.sprites.push(sprite);
+            } else {
+                ranges.push({ start: index, sprites: [sprite] });
+            }
+        }
+        return ranges;
+    };
+
+    const animationTableWidth = 256;
+
+    const fitsAnimationTable = (animation: TileAnimation) =>
+        animation.length > 0 && animation.length < 256 &&
+        animation.every(frame => frame.tileid >= 0 && frame.tileid < 65536 && frame.duration >= 0 && frame.duration < 65536);
+
+    // The shaders get one time per tileset, wrapped at a common multiple of its animations' durations so that whole milliseconds stay exact in a float
+    const maxAnimationPeriod = 1 << 24;
+    const gcd = (a: number, b: number): number => b ? gcd(b, a % b) : a;
+    const tilesetAnimations = new WeakMap<Tileset, { period: number; animations: Map<number, TileAnimation> }>();
+
+    const getTilesetAnimations = (tileset: Tileset) => {
+        let result = tilesetAnimations.get(tileset);
+        if (!result) {
+            result = { period: 1, animations: new Map() };
+            // Animations played by the renderers have to fit the animation table, and grid tilesets are required to find the frames' regions
+            for (const [id, data] of tileset.isCollection() ? [] : tileset.tiledata) {
+                if (!data.animation || !fitsAnimationTable(data.animation)) continue;
+
+                const total = data.animation.reduce((sum, frame) => sum + frame.duration, 0);
+                const period = total ? result.period / gcd(result.period, total) * total : result.period;
+                // Animations that would make the period too long are left to Animators
+                if (period > maxAnimationPeriod) continue;
+
+                result.period = period;
+                result.animations.set(id, data.animation);
+            }
+            tilesetAnimations.set(tileset, result);
+        }
+        return result;
+    };
+
+    const isAnimationSupported = (tileset: Tileset, tileId: number) =>
+        getTilesetAnimations(tileset).animations.has(tileId);
+
+    // Two texels per tile id (first frame index and frame count, total duration), followed by the frames (tile id, duration)
+    const createAnimationTable = (tileset: Tileset) => {
+        const { period, animations: animationMap } = getTilesetAnimations(tileset);
+        const animations = [...animationMap];
+
+        const tileCount = animations.reduce((max, [id]) => Math.max(max, id + 1), 0);
+        const frameCount = animations.reduce((count, [, animation]) => count + animation.length, 0);
+        const size = Math.max(tileCount * 2 + frameCount, 1);
+        const width = Math.min(size, animationTableWidth);
+        const height = Math.ceil(size / width);
+
+        const data = new Uint8Array(width * height * 4);
+        const view = new DataView(data.buffer);
+
+        let start = tileCount * 2;
+        for (const [id, animation] of animations) {
+            view.setUint32(id * 8, (start | (animation.length << 24)) >>> 0, true);
+            view.setUint32(id * 8 + 4, animation.reduce((total, frame) => total + frame.duration, 0), true);
+            for (const frame of animation) {
+                view.setUint16(start * 4, frame.tileid, true);
+                view.setUint16(start * 4 + 2, frame.duration, true);
+                ++start;
+            }
+        }
+
+        return { data, width, height, period };
+    };
+
     return {
         quad,
         fullscreenQuad,
         spriteStride,
         createSpritesData,
+        getSpriteRanges,
+        isAnimationSupported,
+        createAnimationTable,
         lightStride,
         createLightsGeometry,
         createShadowsGeometry
@@ -1,3 +1,6 @@
+import { assets } from "./assets";
+import { Tileset } from "./Tileset";
+
 export const imageUtils = (() => {
     const getImageData = (
         source: HTMLImageElement | HTMLCanvasElement | HTMLVideoElement | ImageBitmap | OffscreenCanvas | Uint8Array
@@ -36,7 +39,31 @@ export const imageUtils = (() => {
         return n > 0 && (n & (n - 1)) === 0;
     }
 
+    const createTilesetAtlas = (tileset: Tileset, images: Record<string, TexImageSource>) => {
+        const canvas = document.createElement("canvas");
+        canvas.width = tileset.imageWidth;
+        canvas.height = tileset.imageHeight;
+
+        const ctx = canvas.getContext("2d");
+        if (!ctx) throw new Error("Could not get 2D context");
+
+        let found = false;
+        for (const tile of tileset.tiledata.values()) {
+            const rect = tileset.getAtlasRect(tile.id);
+            if (!tile.image || !rect) continue;
+
+            const image = images[tile.image] || images[assets.getImageName(tile.image)];
+            if (!image) continue;
+
+            ctx.drawImage(image as CanvasImageSource, tile.x || 0, tile.y || 0, rect.width, rect.height, rect.x, rect.y, rect.width, rect.height);
+            found = true;
+        }
+
+        return found ? canvas : null;
+    }
+
     return {
+        createTilesetAtlas,
         getImageData,
         isPowerOf2
     }
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { ldtk, LdtkEntityInstanceJSON, LdtkLayerInstanceJSON, LdtkLevelJSON, LdtkProjectJSON, LdtkTilesetDefJSON } from "./ldtk";
+
+const FLIPPED_HORIZONTALLY_FLAG = 0x80000000;
+const FLIPPED_VERTICALLY_FLAG = 0x40000000;
+
+const createTileset = (params: Partial<LdtkTilesetDefJSON> = {}): LdtkTilesetDefJSON => ({
+    uid: 1, identifier: "Tiles", relPath: "tiles.png", pxWid: 64, pxHei: 32,
+    tileGridSize: 16, spacing: 0, padding: 0, __cWid: 4, __cHei: 2,
+    ...params
+});
+
+const createLayer = (params: Partial<LdtkLayerInstanceJSON>): LdtkLayerInstanceJSON => ({
+    __identifier: "Layer", __type: "Tiles", __cWid: 2, __cHei: 1, __gridSize: 16, __opacity: 1,
+    __pxTotalOffsetX: 0, __pxTotalOffsetY: 0, __tilesetDefUid: 1, layerDefUid: 0, visible: true,
+    intGridCsv: [], gridTiles: [], autoLayerTiles: [], entityInstances: [],
+    ...params
+});
+
+const createEntity = (params: Partial<LdtkEntityInstanceJSON>): LdtkEntityInstanceJSON => ({
+    __identifier: "Entity", iid: "", px: [0, 0], __pivot: [0, 0], __tile: null,
+    width: 16, height: 16, fieldInstances: [],
+    ...params
+});
+
+const createProject = (layers: LdtkLayerInstanceJSON[], tilesets = [createTileset()]) => {
+    const level: LdtkLevelJSON = {
+        identifier: "Level_0", iid: "level", worldX: 0, worldY: 0, pxWid: 32, pxHei: 16,
+        fieldInstances: [], layerInstances: layers
+    };
+    const project: LdtkProjectJSON = {
+        defaultGridSize: 16,
+        defs: {
+            tilesets,
+            layers: [{ uid: 10, identifier: "Walls", type: "IntGrid", intGridValues: [{ value: 1, identifier: "wall" }] }]
+        },
+        levels: [level]
+    };
+    return { project, level };
+};
+
+describe("ldtk.convertLevel", () => {
+    it("converts layers back to front and stacks tiles sharing a cell", () => {
+        const { project, level } = createProject([
+            createLayer({
+                __identifier: "Ground",
+                __opacity: 0.5,
+                __pxTotalOffsetX: 4,
+                gridTiles: [
+                    { px: [0, 0], src: [16, 16], f: 1, t: 5 },
+                    { px: [0, 0], src: [32, 0], f: 0, t: 2 },
+                    { px: [16, 0], src: [48, 0], f: 2, t: 3 }
+                ]
+            }),
+            createLayer({
+                __identifier: "Walls", __type: "IntGrid", __tilesetDefUid: null, layerDefUid: 10, intGridCsv: [1, 0]
+            })
+        ]);
+
+        const map = ldtk.convertLevel(project, level);
+
+        expect(map).toMatchObject({ width: 2, height: 1, tilewidth: 16, tileheight: 16, orientation: "orthogonal" });
+        expect(map.tilesets).toEqual([expect.objectContaining({ firstgid: 1, name: "Tiles", image: "tiles.png", tilecount: 8, columns: 4 })]);
+        expect(map.layers.map(layer => layer.name)).toEqual(["Walls", "Ground", "Ground"]);
+        expect(map.layers[0]).toMatchObject({
+            type: "tilelayer", data: [0, 0], intgrid: [1, 0], intgridvalues: [{ value: 1, identifier: "wall" }]
+        });
+        expect(map.layers[1]).toMatchObject({
+            type: "tilelayer",
+            offsetx: 4,
+            opacity: 0.5,
+            data: [(6 | FLIPPED_HORIZONTALLY_FLAG) >>> 0, (4 | FLIPPED_VERTICALLY_FLAG) >>> 0]
+        });
+        expect(map.layers[2].data).toEqual([3, 0]);
+    });
+
+    it("converts entities to objects", () => {
+        const { project, level } = createProject([
+            createLayer({
+                __identifier: "Entities",
+                __type: "Entities",
+                __tilesetDefUid: null,
+                entityInstances: [
+                    createEntity({
+                        __identifier: "Door", iid: "door", px: [24, 16], __pivot: [0.5, 1],
+                        fieldInstances: [
+                            { __identifier: "key", __type: "EntityRef", __value: { entityIid: "chest" } },
+                            { __identifier: "other", __type: "EntityRef", __value: { entityIid: "elsewhere" } },
+                            { __identifier: "level", __type: "Int", __value: 2 },
+                            { __identifier: "empty", __type: "String", __value: null }
+                        ]
+                    }),
+                    createEntity({ __identifier: "Chest", iid: "chest", __tile: { tilesetUid: 1, x: 16, y: 16, w: 16, h: 16 } })
+                ]
+            })
+        ]);
+
+        const [door, chest] = ldtk.convertLevel(project, level).layers[0].objects!;
+
+        expect(door).toMatchObject({ id: 1, name: "Door", type: "Door", x: 16, y: 0, width: 16, height: 16 });
+        expect(door.properties).toEqual([
+            { name: "key", type: "object", value: 2 },
+            { name: "other", type: "string", value: "elsewhere" },
+            { name: "level", type: "int", value: 2 }
+        ]);
+        expect(chest).toMatchObject({ id: 2, gid: 6, x: 0, y: 16 });
+    });
+
+    it("rejects levels without layers", () => {
+        const { project, level } = createProject([]);
+        level.layerInstances = null;
+
+        expect(() => ldtk.convertLevel(project, level)).toThrow("has no layers, it has to be loaded from its external file");
+    });
+
+    it("rejects tiles without a tileset", () => {
+        const { project, level } = createProject([
+            createLayer({ __identifier: "Auto", __type: "AutoLayer", __tilesetDefUid: null, autoLayerTiles: [{ px: [0, 0], src: [0, 0], f: 0, t: 0 }] })
+        ]);
+
+        expect(() => ldtk.convertLevel(project, level)).toThrow("LDtk layer \"Auto\" has tiles but no tileset");
+    });
+
+    it("rejects tilesets without an image", () => {
+        const tiles = [{ px: [0, 0] as [number, number], src: [0, 0] as [number, number], f: 0, t: 0 }];
+
+        const embedded = createProject([createLayer({ gridTiles: tiles })], [createTileset({ relPath: null, embedAtlas: "LdtkIcons" })]);
+        expect(() => ldtk.convertLevel(embedded.project, embedded.level)).toThrow("uses the embedded atlas LdtkIcons, which is not supported");
+
+        const missing = createProject([createLayer({ gridTiles: tiles })], [createTileset({ relPath: null })]);
+        expect(() => ldtk.convertLevel(missing.project, missing.level)).toThrow("LDtk tileset \"Tiles\" has no image");
+    });
+});
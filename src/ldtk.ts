@@ -0,0 +1,330 @@
+import { TileLayerIntGridValue, TilemapJSON, TilemapLayerJSON, TilemapObjectJSON, TilemapTileset } from "./Tilemap";
+import { TileDataJSON, TilePropertyJSON, TilePropertyType, TilePropertyValue, TilesetJSON } from "./Tileset";
+
+const FLIPPED_HORIZONTALLY_FLAG = 0x80000000;
+const FLIPPED_VERTICALLY_FLAG = 0x40000000;
+
+export type LdtkLayerType = "IntGrid" | "Entities" | "Tiles" | "AutoLayer";
+
+export interface LdtkTilesetDefJSON {
+    uid: number;
+    identifier: string;
+    relPath: string | null;
+    embedAtlas?: string | null;
+    pxWid: number;
+    pxHei: number;
+    tileGridSize: number;
+    spacing: number;
+    padding: number;
+    __cWid: number;
+    __cHei: number;
+    customData?: { tileId: number; data: string; }[];
+    enumTags?: { enumValueId: string; tileIds: number[]; }[];
+}
+
+export interface LdtkLayerDefJSON {
+    uid: number;
+    identifier: string;
+    type: LdtkLayerType;
+    intGridValues?: TileLayerIntGridValue[];
+}
+
+export interface LdtkTileInstanceJSON {
+    px: [number, number];
+    src: [number, number];
+    f: number;
+    t: number;
+}
+
+export interface LdtkTileRectJSON {
+    tilesetUid: number;
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+export interface LdtkFieldInstanceJSON {
+    __identifier: string;
+    __type: string;
+    __value: unknown;
+}
+
+export interface LdtkEntityInstanceJSON {
+    __identifier: string;
+    iid: string;
+    px: [number, number];
+    __pivot: [number, number];
+    __tile: LdtkTileRectJSON | null;
+    width: number;
+    height: number;
+    fieldInstances: LdtkFieldInstanceJSON[];
+}
+
+export interface LdtkLayerInstanceJSON {
+    __identifier: string;
+    __type: LdtkLayerType;
+    __cWid: number;
+    __cHei: number;
+    __gridSize: number;
+    __opacity: number;
+    __pxTotalOffsetX: number;
+    __pxTotalOffsetY: number;
+    __tilesetDefUid: number | null;
+    layerDefUid: number;
+    visible: boolean;
+    intGridCsv: number[];
+    gridTiles: LdtkTileInstanceJSON[];
+    autoLayerTiles: LdtkTileInstanceJSON[];
+    entityInstances: LdtkEntityInstanceJSON[];
+}
+
+export interface LdtkLevelJSON {
+    identifier: string;
+    iid: string;
+    worldX: number;
+    worldY: number;
+    pxWid: number;
+    pxHei: number;
+    fieldInstances: LdtkFieldInstanceJSON[];
+    layerInstances: LdtkLayerInstanceJSON[] | null;
+    externalRelPath?: string | null;
+}
+
+export interface LdtkProjectJSON {
+    defaultGridSize: number;
+    externalLevels?: boolean;
+    defs: {
+        tilesets: LdtkTilesetDefJSON[];
+        layers: LdtkLayerDefJSON[];
+    };
+    levels: LdtkLevelJSON[];
+    worlds?: { levels: LdtkLevelJSON[]; }[];
+}
+
+export const ldtk = (() => {
+    const convertTileset = (def: LdtkTilesetDefJSON): TilesetJSON => {
+        // Embedded atlases such as LDtk's internal icons ship inside the editor, so there is no image to load
+        if (def.embedAtlas) {
+            throw new Error("LDtk tileset \"" + def.identifier + "\" uses the embedded atlas " + def.embedAtlas + ", which is not supported");
+        }
+        if (!def.relPath) {
+            throw new Error("LDtk tileset \"" + def.identifier + "\" has no image");
+        }
+
+        const tiles = new Map<number, TileDataJSON>();
+        const addProperty = (tileId: number, property: TilePropertyJSON) => {
+            if (!tiles.has(tileId)) tiles.set(tileId, { id: tileId, properties: [] });
+            tiles.get(tileId)!.properties!.push(property);
+        };
+
+        for (const item of def.customData || []) {
+            addProperty(item.tileId, { name: "customData", type: "string", value: item.data });
+        }
+        for (const tag of def.enumTags || []) {
+            for (const tileId of tag.tileIds) {
+                addProperty(tileId, { name: tag.enumValueId, type: "bool", value: true });
+            }
+        }
+
+        return {
+            name: def.identifier,
+            image: def.relPath,
+            imagewidth: def.pxWid,
+            imageheight: def.pxHei,
+            tilewidth: def.tileGridSize,
+            tileheight: def.tileGridSize,
+            columns: def.__cWid,
+            tilecount: def.__cWid * def.__cHei,
+            margin: def.padding,
+            spacing: def.spacing,
+            tiles: tiles.size ? Array.from(tiles.values()) : undefined
+        };
+    };
+
+    const getTileId = (def: LdtkTilesetDefJSON, x: number, y: number) => {
+        const step = def.tileGridSize + def.spacing;
+        return Math.floor((y - def.padding) / step) * def.__cWid + Math.floor((x - def.padding) / step);
+    };
+
+    const convertFieldValue = (type: string, value: unknown, entityIds: Map<string, number>): [TilePropertyType, TilePropertyValue] | null => {
+        if (value === null || value === undefined) return null;
+
+        const array = /^Array<(.*)>$/.exec(type);
+        if (array) {
+            const members: Record<string, TilePropertyValue> = {};
+            (value as unknown[]).forEach((item, i) => {
+                const converted = convertFieldValue(array[1], item, entityIds);
+                if (converted) members[i] = converted[1];
+            });
+            return ["class", members];
+        }
+
+        switch (type) {
+            case "Int": return ["int", value as number];
+            case "Float": return ["float", value as number];
+            case "Bool": return ["bool", value as boolean];
+            case "Color": return ["color", value as string];
+            case "FilePath": return ["file", value as string];
+            case "Point": {
+                const point = value as { cx: number; cy: number; };
+                return ["class", { cx: point.cx, cy: point.cy }];
+            }
+            case "Tile": {
+                const rect = value as LdtkTileRectJSON;
+                return ["class", { tilesetUid: rect.tilesetUid, x: rect.x, y: rect.y, w: rect.w, h: rect.h }];
+            }
+            case "EntityRef": {
+                // References to entities of the same level become object properties, others keep the entity iid
+                const iid = (value as { entityIid: string; }).entityIid;
+                const id = entityIds.get(iid);
+                return id !== undefined ? ["object", id] : ["string", iid];
+            }
+            default: return ["string", String(value)];
+        }
+    };
+
+    const convertFields = (fields: LdtkFieldInstanceJSON[], entityIds: Map<string, number>) => {
+        const properties: TilePropertyJSON[] = [];
+        for (const field of fields) {
+            const converted = convertFieldValue(field.__type, field.__value, entityIds);
+            if (converted) {
+                properties.push({ name: field.__identifier, type: converted[0], value: converted[1] });
+            }
+        }
+        return properties.length ? properties : undefined;
+    };
+
+    const getLayerTiles = (layer: LdtkLayerInstanceJSON) =>
+        layer.__type === "Tiles" ? layer.gridTiles : layer.autoLayerTiles;
+
+    const convertLevel = (project: LdtkProjectJSON, level: LdtkLevelJSON): TilemapJSON => {
+        if (!level.layerInstances) {
+            throw new Error("LDtk level \"" + level.identifier + "\" has no layers, it has to be loaded from its external file");
+        }
+
+        // LDtk lists layers from front to back
+        const layers = [...level.layerInstances].reverse();
+        const tileLayers = layers.filter(layer => layer.__type !== "Entities");
+        const gridSize = tileLayers.length ? tileLayers[0].__gridSize : project.defaultGridSize;
+
+        const tilesetDefs = new Map(project.defs.tilesets.map(def => [def.uid, def]));
+        const firstGids = new Map<number, number>();
+        const tilesets: TilemapTileset[] = [];
+        const useTileset = (uid: number) => {
+            const def = tilesetDefs.get(uid);
+            if (!def) throw new Error("LDtk project doesn't include tileset " + uid);
+
+            if (!firstGids.has(uid)) {
+                const firstgid = tilesets.reduce((max, item) => Math.max(max, item.firstgid + item.tilecount), 1);
+                firstGids.set(uid, firstgid);
+                tilesets.push({ ...convertTileset(def), firstgid });
+            }
+            return { def, firstgid: firstGids.get(uid)! };
+        };
+
+        const entityIds = new Map<string, number>();
+        for (const layer of layers) {
+            for (const entity of layer.entityInstances) {
+                entityIds.set(entity.iid, entityIds.size + 1);
+            }
+        }
+
+        const result: TilemapLayerJSON[] = [];
+        for (const layer of layers) {
+            const base = {
+                name: layer.__identifier,
+                x: 0,
+                y: 0,
+                width: layer.__cWid,
+                height: layer.__cHei,
+                offsetx: layer.__pxTotalOffsetX,
+                offsety: layer.__pxTotalOffsetY,
+                opacity: layer.__opacity,
+                visible: layer.visible
+            };
+
+            if (layer.__type === "Entities") {
+                result.push({
+                    ...base,
+                    type: "objectgroup",
+                    objects: layer.entityInstances.map(entity => {
+                        const obj: TilemapObjectJSON = {
+                            id: entityIds.get(entity.iid),
+                            name: entity.__identifier,
+                            type: entity.__identifier,
+                            x: entity.px[0] - entity.__pivot[0] * entity.width,
+                            y: entity.px[1] - entity.__pivot[1] * entity.height,
+                            width: entity.width,
+                            height: entity.height,
+                            properties: convertFields(entity.fieldInstances, entityIds)
+                        };
+
+                        if (entity.__tile) {
+                            // Tile objects are positioned by their bottom-left corner
+                            const { def, firstgid } = useTileset(entity.__tile.tilesetUid);
+                            obj.gid = firstgid + getTileId(def, entity.__tile.x, entity.__tile.y);
+                            obj.y += entity.height;
+                        }
+
+                        return obj;
+                    })
+                });
+                continue;
+            }
+
+            const tiles = getLayerTiles(layer);
+            if (tiles.length && layer.__gridSize !== gridSize) {
+                throw new Error("LDtk layer \"" + layer.__identifier + "\" has a grid size of " + layer.__gridSize + ", expected " + gridSize);
+            }
+
+            // Tiles stacked in the same cell are moved to extra layers drawn above
+            const stack: number[][] = [];
+            if (tiles.length) {
+                if (layer.__tilesetDefUid === null) {
+                    throw new Error("LDtk layer \"" + layer.__identifier + "\" has tiles but no tileset");
+                }
+                const firstgid = useTileset(layer.__tilesetDefUid).firstgid;
+                for (const tile of tiles) {
+                    const index = Math.floor(tile.px[1] / gridSize) * layer.__cWid + Math.floor(tile.px[0] / gridSize);
+                    let data = stack.find(data => !data[index]);
+                    if (!data) {
+                        data = new Array(layer.__cWid * layer.__cHei).fill(0);
+                        stack.push(data);
+                    }
+                    data[index] = ((firstgid + tile.t) |
+                        (tile.f & 1 ? FLIPPED_HORIZONTALLY_FLAG : 0) |
+                        (tile.f & 2 ? FLIPPED_VERTICALLY_FLAG : 0)) >>> 0;
+                }
+            }
+            if (!stack.length) {
+                stack.push(new Array(layer.__cWid * layer.__cHei).fill(0));
+            }
+
+            stack.forEach((data, i) => {
+                const json: TilemapLayerJSON = { ...base, type: "tilelayer", data };
+                if (i === 0 && layer.__type === "IntGrid") {
+                    json.intgrid = layer.intGridCsv;
+                    json.intgridvalues = project.defs.layers.find(def => def.uid === layer.layerDefUid)?.intGridValues || [];
+                }
+                result.push(json);
+            });
+        }
+
+        return {
+            width: Math.ceil(level.pxWid / gridSize),
+            height: Math.ceil(level.pxHei / gridSize),
+            tilewidth: gridSize,
+            tileheight: gridSize,
+            orientation: "orthogonal",
+            tilesets,
+            layers: result,
+            properties: convertFields(level.fieldInstances, entityIds)
+        };
+    };
+
+    return {
+        convertLevel,
+        convertTileset
+    };
+})();
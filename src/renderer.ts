@@ -29,6 +29,7 @@ export const getOffscreenTextureSizeFactor = (idx: number) => {
 
 export interface TextureInfo {
     texture?: WebGLTexture | GPUTexture;
+    animationTable?: { texture: WebGLTexture | GPUTexture; width: number; height: number; period: number; };
     tileset: Tileset;
     image: TexImageSource;
 }
@@ -55,6 +56,7 @@ export const maskClearColor = new Color(0, 0, 0, 1);
 
 export interface Renderer {
     getType(): RendererType;
+    isTileDataTexturesSupported(): boolean;
     addTextures(tilesets: Tileset[], images: Record<string, TexImageSource>): void;
     init(): Promise<void>;
     render(scene: Scene, camera: Camera): void;
@@ -1,27 +1,44 @@
 import { Animator } from "./Animator";
+import { Backdrop } from "./Backdrop";
 import { Collider } from "./Collider";
 import { Color } from "./Color";
+import { Camera } from "./Camera";
 import { Bounds } from "./common";
+import { geometry } from "./geometry";
 import { Light } from "./Light";
 import { SpatialHashGrid, SpatialHashGridClient, SpatialHashGridParams } from "./SpatialHashGrid";
 import { Sprite } from "./Sprite";
-import { ObjectLayer, TileLayer, Tilemap, TilemapObject } from "./Tilemap";
+import { ImageLayer, ObjectLayer, TileLayer, Tilemap, TilemapObject } from "./Tilemap";
+import { Tile, TileRect, Tileset } from "./Tileset";
+import { tilemapColliders } from "./tilemapColliders";
+import { TilemapQuad } from "./TilemapQuad";
 import { Vector } from "./Vector";
 
-interface SceneAddTilemapConfig {
+export interface SceneAddTilemapConfig {
     layers?: {
         name: string;
         zIndex?: number;
     }[];
     tileWidth?: number;
     tileHeight?: number;
-    onObject?: (obj: TilemapObject, x: number, y: number, w: number, h: number, zIndex: number, scene: Scene, layer: ObjectLayer) => void;
+    offset?: Vector;
+    streaming?: {
+        chunkSize?: number;
+        margin?: number;
+    };
+    tileObjectSprites?: boolean;
+    objectColliders?: boolean | ((obj: TilemapObject, layer: ObjectLayer) => boolean);
+    tileColliders?: boolean | ((layer: TileLayer) => boolean);
+    tileLayerQuads?: boolean | ((layer: TileLayer) => boolean);
+    onObject?: (obj: TilemapObject, x: number, y: number, w: number, h: number, zIndex: number, scene: Scene, layer: ObjectLayer, sprite: Sprite | null) => void;
 }
 
 interface SceneParams {
     collidersHashGrid?: SpatialHashGridParams;
     ambientIntensity?: number;
     ambientColor?: Color;
+    // Result of renderer.isTileDataTexturesSupported(), tilemaps fall back to sprites and Animators when false
+    tileDataTextures?: boolean;
 }
 
 export class Scene {
@@ -31,6 +48,8 @@ export class Scene {
     private lights: Light[];
     private colliders: { collider: Collider, hashGridClient: SpatialHashGridClient<Collider> }[];
     private collidersHashGrid: SpatialHashGrid<Collider>;
+    private tilemapLayers: Map<SceneLayer, number>;
+    public readonly tileDataTextures: boolean;
 
     constructor(params: SceneParams = {}) {
         this.layers = [];
@@ -38,6 +57,8 @@ export class Scene {
         this.ambientColor = params.ambientColor || new Color(1, 1, 1);
         this.lights = [];
         this.colliders = [];
+        this.tilemapLayers = new Map();
+        this.tileDataTextures = params.tileDataTextures ?? true;
         this.collidersHashGrid = new SpatialHashGrid(params.collidersHashGrid || {
             bounds: { min: new Vector(-1000, -1000), max: new Vector(1000, 1000) },
             dimensions: [20, 20]
@@ -45,9 +66,13 @@ export class Scene {
     }
 
     private findLayerBySprite(sprite: Sprite) {
+        return this.getLayer(sprite.zIndex, sprite.isStatic);
+    }
+
+    public getLayer(zIndex: number, isStatic: boolean) {
         return this.layers.find(layer =>
-            layer.isStatic === sprite.isStatic &&
-            layer.zIndex === sprite.zIndex);
+            layer.isStatic === isStatic &&
+            layer.zIndex === zIndex) || null;
     }
 
     public addLight(light: Light) {
@@ -79,16 +104,83 @@ export class Scene {
         layer.remove(sprite);
     }
 
+    public updateSprite(sprite: Sprite) {
+        this.findLayerBySprite(sprite)?.updateSprite(sprite);
+    }
+
+    // Tilemap quads are drawn by the static layer of their z-index, below its sprites
+    public addTilemapQuad(quad: TilemapQuad) {
+        if (!this.tileDataTextures) {
+            throw new Error("Tilemap quads are not supported by the renderer");
+        }
+
+        let layer = this.getLayer(quad.zIndex, true);
+        if (!layer) {
+            layer = this.createLayer({
+                zIndex: quad.zIndex,
+                isStatic: true
+            });
+        }
+        layer.addQuad(quad);
+        return quad;
+    }
+
+    public removeTilemapQuad(quad: TilemapQuad) {
+        this.getLayer(quad.zIndex, true)?.removeQuad(quad);
+    }
+
     public addTilemap(tilemap: Tilemap, config: SceneAddTilemapConfig = {}) {
         const layers = tilemap.getLayers();
 
         const tileWidth = config.tileWidth || tilemap.tileWidth;
         const tileHeight = config.tileHeight || tilemap.tileHeight;
+        const scaleX = tileWidth / tilemap.tileWidth;
+        const scaleY = tileHeight / tilemap.tileHeight;
+        const isometric = tilemap.orientation === "isometric";
+        const orthogonal = tilemap.orientation === "orthogonal";
 
         let zIndex = 0;
 
-        const sprites = [];
-        const animators = [];
+        const sprites: Sprite[] = [];
+        const animators: Animator[] = [];
+        const backdrops: Backdrop[] = [];
+        const colliders: Collider[] = [];
+        const quads: TilemapQuad[] = [];
+        const changeListeners: [TileLayer, (x: number, y: number) => void][] = [];
+        const streamedLayers: ((camera: Camera) => void)[] = [];
+        const chunkSize = config.streaming?.chunkSize || 16;
+        const margin = config.streaming?.margin || 0;
+
+        const removeItems = <T>(items: T[], removed: Set<T>) => {
+            let n = 0;
+            for (const item of items) {
+                if (!removed.has(item)) items[n++] = item;
+            }
+            items.length = n;
+        };
+
+        // Scene layers are shared by the tilemaps drawn at their z-index, and removed with the last one using them
+        const sceneLayers = new Set<SceneLayer>();
+        const useSceneLayer = (sceneLayer: SceneLayer) => {
+            if (!sceneLayers.has(sceneLayer)) {
+                sceneLayers.add(sceneLayer);
+                this.tilemapLayers.set(sceneLayer, (this.tilemapLayers.get(sceneLayer) || 0) + 1);
+            }
+            return sceneLayer;
+        };
+
+        const addSprite = (sprite: Sprite) => {
+            useSceneLayer(this.findLayerBySprite(this.addSprite(sprite))!);
+            return sprite;
+        };
+
+        const addQuad = (quad: TilemapQuad) => {
+            useSceneLayer(this.getLayer(this.addTilemapQuad(quad).zIndex, true)!);
+            return quad;
+        };
+
+        // Animations the renderers can play from the tileset's animation table keep their tiles static
+        const isAnimatedOnGpu = (tile: Tile) => this.tileDataTextures && !!tile.animation && geometry.isAnimationSupported(tile.tileset, tile.id);
 
         for (const layer of layers) {
             const layerConfig = config.layers?.find(item => item.name === layer.name);
@@ -97,34 +189,375 @@ export class Scene {
                 zIndex = layerConfig.zIndex;
             }
 
-            if (layer.renderOrder !== "manual") {
-                this.createLayer({
-                    zIndex,
-                    renderOrder: layer.renderOrder,
-                    isStatic: false
-                });
+            const layerParams = {
+                parallax: layer.getTotalParallax(),
+                parallaxOrigin: new Vector(
+                    tilemap.parallaxOrigin.x * tileWidth / tilemap.tileWidth,
+                    tilemap.parallaxOrigin.y * tileHeight / tilemap.tileHeight
+                ),
+                opacity: layer.getTotalOpacity(),
+                tintColor: layer.getTotalTintColor(),
+                visible: layer.type === "objectgroup" || layer.isVisible()
+            };
+
+            const hasLayerParams = layerParams.parallax.x !== 1 || layerParams.parallax.y !== 1 ||
+                layerParams.opacity !== 1 || !layerParams.visible ||
+                layerParams.tintColor.r !== 1 || layerParams.tintColor.g !== 1 || layerParams.tintColor.b !== 1 || layerParams.tintColor.a !== 1;
+
+            // Tiles on non-orthogonal grids are drawn back to front so that tall tiles overlap the tiles behind them
+            const renderOrder = !orthogonal && layer.type === "tilelayer" ? "topdown" : layer.renderOrder;
+
+            // Layers already in the scene take the settings of the tilemap added last
+            const configureLayer = (isStatic: boolean) => {
+                const existing = this.getLayer(zIndex, isStatic);
+                existing?.configure({ renderOrder, ...layerParams });
+                return useSceneLayer(existing || this.createLayer({ zIndex, isStatic, renderOrder, ...layerParams }));
+            };
+
+            if (renderOrder !== "manual" || hasLayerParams) {
+                configureLayer(false);
+                configureLayer(true);
             }
 
+            const offset = layer.getTotalOffset();
+            const offsetX = offset.x * tileWidth / tilemap.tileWidth + (config.offset?.x || 0);
+            const offsetY = offset.y * tileHeight / tilemap.tileHeight + (config.offset?.y || 0);
+
             switch (layer.type) {
                 case "tilelayer": {
+                    const tileLayer = layer as TileLayer;
+                    const layerZIndex = zIndex;
+                    const cells = new Map<string, { sprite: Sprite; animator: Animator | null; }>();
+
+                    const placeTileSprite = (s: Sprite, tile: Tile, j: number, i: number) => {
+                        const rect = tilemap.getTileRect(tile, j + layer.x, i + layer.y);
+                        const w = rect.width * scaleX;
+                        const h = rect.height * scaleY;
+
+                        // Anchored at the bottom of the tile, taller tiles extend upwards
+                        s.position.set(rect.x * scaleX + offsetX, (rect.y + rect.height) * scaleY + offsetY);
+                        s.offset.set(0, -h);
+                        s.scale.set(w, h);
+                    };
+
+                    const createTileSprite = (j: number, i: number) => {
+                        const tile = tileLayer.getTile(j, i);
+
+                        if (!tile) return;
+
+                        const animated = isAnimatedOnGpu(tile);
+                        const s = new Sprite({
+                            isStatic: tile.animation === undefined || animated,
+                            zIndex: layerZIndex,
+                            tileset: tile.tileset,
+                            tilesetRegion: { x: tile.x, y: tile.y },
+                            animated,
+                            ...tileLayer.getTileFlip(j, i)
+                        });
+
+                        placeTileSprite(s, tile, j, i);
+
+                        sprites.push(addSprite(s));
+
+                        let animator: Animator | null = null;
+                        if (tile.animation && !animated) {
+                            animator = new Animator(s);
+                            animator.play({ x: tile.x, y: tile.y }, { repeat: true });
+                            animators.push(animator);
+                        }
 
-                    for (let i = 0; i < layer.height; ++i) {
-                        for (let j = 0; j < layer.width; ++j) {
-                            const tile = (layer as TileLayer).getTile(j, i);
+                        cells.set(j + "," + i, { sprite: s, animator });
+                    };
+
+                    // Tiles filling their cell on orthogonal layers are drawn by one tilemap quad per tileset instead of a sprite each
+                    const useQuads = orthogonal && !config.streaming && this.tileDataTextures && (typeof config.tileLayerQuads === "function" ?
+                        config.tileLayerQuads(tileLayer) :
+                        config.tileLayerQuads);
+                    const layerChunks = tileLayer.getChunks();
+                    const layerQuads = new Map<Tileset, TilemapQuad>();
+                    const quadX = Math.min(...layerChunks.map(c => c.x));
+                    const quadY = Math.min(...layerChunks.map(c => c.y));
+                    const quadWidth = Math.max(...layerChunks.map(c => c.x + c.width)) - quadX;
+                    const quadHeight = Math.max(...layerChunks.map(c => c.y + c.height)) - quadY;
+
+                    const getQuad = (tileset: Tileset) => {
+                        let quad = layerQuads.get(tileset);
+                        if (!quad) {
+                            quad = new TilemapQuad({
+                                tileset,
+                                width: quadWidth,
+                                height: quadHeight,
+                                tileWidth,
+                                tileHeight,
+                                zIndex: layerZIndex
+                            });
+                            quad.position.set((quadX + layer.x) * tileWidth + offsetX, (quadY + layer.y) * tileHeight + offsetY);
+                            layerQuads.set(tileset, quad);
+                            quads.push(addQuad(quad));
+                        }
+                        return quad;
+                    };
+
+                    const addQuadTile = (j: number, i: number) => {
+                        const tile = tileLayer.getTile(j, i);
+                        if (!useQuads || !tile || (tile.animation && !isAnimatedOnGpu(tile)) || tile.tileset.isCollection()) return false;
+                        if (j < quadX || i < quadY || j >= quadX + quadWidth || i >= quadY + quadHeight) return false;
+
+                        const rect = tilemap.getTileRect(tile, j + layer.x, i + layer.y);
+                        const cell = tilemap.tileToScreen(j + layer.x, i + layer.y);
+                        if (rect.x !== cell.x || rect.y !== cell.y || rect.width !== tilemap.tileWidth || rect.height !== tilemap.tileHeight) return false;
+
+                        getQuad(tile.tileset).setTile(j - quadX, i - quadY, tile.id, tileLayer.getTileFlip(j, i));
+                        return true;
+                    };
+
+                    const createTile = (j: number, i: number) => {
+                        if (!addQuadTile(j, i)) createTileSprite(j, i);
+                    };
+
+                    // Colliders are kept per chunk, so that edits rebuild only their chunk's colliders and streamed chunks can remove them
+                    const chunkColliders = new Map<string, Collider[]>();
+                    const getChunkKey = (j: number, i: number) => Math.floor(j / chunkSize) + "," + Math.floor(i / chunkSize);
+
+                    const createColliders = typeof config.tileColliders === "function" ?
+                        config.tileColliders(tileLayer) :
+                        config.tileColliders;
+
+                    const addColliders = (region?: TileRect) => {
+                        const layerColliders = createColliders ? tilemapColliders.createTileLayerColliders(
+                            tileLayer,
+                            new Vector(tileWidth, tileHeight),
+                            new Vector(offsetX, offsetY),
+                            region
+                        ) : [];
+                        for (const collider of layerColliders) {
+                            collider.isStatic = true;
+                            colliders.push(this.addCollider(collider));
+                        }
+                        return layerColliders;
+                    };
+
+                    const addChunkColliders = (cx: number, cy: number) => {
+                        chunkColliders.set(cx + "," + cy, addColliders({ x: cx * chunkSize, y: cy * chunkSize, width: chunkSize, height: chunkSize }));
+                    };
+
+                    const removeChunkColliders = (key: string) => {
+                        const removed = chunkColliders.get(key)!;
+                        removed.forEach(collider => this.removeCollider(collider));
+                        removeItems(colliders, new Set(removed));
+                        chunkColliders.delete(key);
+                    };
+
+                    const onChange = (j: number, i: number) => {
+                        const chunkKey = getChunkKey(j, i);
+                        if (config.streaming && !chunkColliders.has(chunkKey)) return;
+
+                        if (createColliders) {
+                            if (chunkColliders.has(chunkKey)) removeChunkColliders(chunkKey);
+                            addChunkColliders(Math.floor(j / chunkSize), Math.floor(i / chunkSize));
+                        }
+
+                        for (const quad of layerQuads.values()) {
+                            quad.clearTile(j - quadX, i - quadY);
+                        }
+
+                        const key = j + "," + i;
+                        const cell = cells.get(key);
+                        const tile = tileLayer.getTile(j, i);
+
+                        // Static sprites are updated in place, so only their range of the layer's buffer is uploaded again
+                        if (cell && cell.sprite.isStatic && (!tile?.animation || isAnimatedOnGpu(tile))) {
+                            const s = cell.sprite;
+                            if (tile) {
+                                const flip = tileLayer.getTileFlip(j, i);
+                                s.tileset = tile.tileset;
+                                s.setTilesetRegion(tile.x, tile.y);
+                                s.animated = isAnimatedOnGpu(tile);
+                                s.flipH = flip.flipH;
+                                s.flipV = flip.flipV;
+                                s.flipD = flip.flipD;
+                                placeTileSprite(s, tile, j, i);
+                            } else {
+                                s.scale.set(0, 0);
+                            }
+                            this.updateSprite(s);
+                            return;
+                        }
+
+                        if (cell) {
+                            this.removeSprite(cell.sprite);
+                            sprites.splice(sprites.indexOf(cell.sprite), 1);
+                            if (cell.animator) {
+                                animators.splice(animators.indexOf(cell.animator), 1);
+                            }
+                            cells.delete(key);
+                        }
+
+                        createTile(j, i);
+                    };
+                    tileLayer.addChangeListener(onChange);
+                    changeListeners.push([tileLayer, onChange]);
+
+                    if (!config.streaming) {
+                        for (const chunk of layerChunks) {
+                            for (let i = chunk.y; i < chunk.y + chunk.height; ++i) {
+                                for (let j = chunk.x; j < chunk.x + chunk.width; ++j) {
+                                    createTile(j, i);
+                                }
+                            }
+                        }
+                        if (createColliders && layerChunks.length) {
+                            for (let cy = Math.floor(quadY / chunkSize); cy * chunkSize < quadY + quadHeight; ++cy) {
+                                for (let cx = Math.floor(quadX / chunkSize); cx * chunkSize < quadX + quadWidth; ++cx) {
+                                    addChunkColliders(cx, cy);
+                                }
+                            }
+                        }
+                        break;
+                    }
 
-                            if (!tile) continue;
+                    // Chunks are picked from the area shown by the scene layer their sprites go to, which follows its parallax
+                    const sceneLayer = useSceneLayer(this.getLayer(layerZIndex, true) ||
+                        this.createLayer({ zIndex: layerZIndex, isStatic: true, renderOrder, ...layerParams }));
 
-                            const s = new Sprite({
-                                isStatic: tile.animation === undefined,
+                    const loadChunk = (cx: number, cy: number) => {
+                        for (let i = cy * chunkSize; i < (cy + 1) * chunkSize; ++i) {
+                            for (let j = cx * chunkSize; j < (cx + 1) * chunkSize; ++j) {
+                                createTileSprite(j, i);
+                            }
+                        }
+                        addChunkColliders(cx, cy);
+                    };
+
+                    const unloadChunk = (key: string) => {
+                        const [cx, cy] = key.split(",").map(Number);
+                        const removedSprites = new Set<Sprite>();
+                        const removedAnimators = new Set<Animator>();
+
+                        for (let i = cy * chunkSize; i < (cy + 1) * chunkSize; ++i) {
+                            for (let j = cx * chunkSize; j < (cx + 1) * chunkSize; ++j) {
+                                const cell = cells.get(j + "," + i);
+                                if (!cell) continue;
+
+                                this.removeSprite(cell.sprite);
+                                removedSprites.add(cell.sprite);
+                                if (cell.animator) removedAnimators.add(cell.animator);
+                                cells.delete(j + "," + i);
+                            }
+                        }
+
+                        removeChunkColliders(key);
+                        removeItems(sprites, removedSprites);
+                        removeItems(animators, removedAnimators);
+                    };
+
+                    streamedLayers.push(camera => {
+                        const layerChunks = tileLayer.getChunks();
+                        if (!layerChunks.length) return;
+
+                        const bounds = sceneLayer.getCameraBounds(camera);
+
+                        // The visible cells are found from the corners of the bounds, which covers rotated grids as well
+                        const corners = [
+                            [bounds.min.x - margin, bounds.min.y - margin], [bounds.max.x + margin, bounds.min.y - margin],
+                            [bounds.min.x - margin, bounds.max.y + margin], [bounds.max.x + margin, bounds.max.y + margin]
+                        ].map(([x, y]) => tilemap.screenToTile((x - offsetX) / scaleX, (y - offsetY) / scaleY));
+
+                        const minX = Math.max(Math.min(...corners.map(c => c.x)) - layer.x, Math.min(...layerChunks.map(c => c.x)));
+                        const minY = Math.max(Math.min(...corners.map(c => c.y)) - layer.y, Math.min(...layerChunks.map(c => c.y)));
+                        const maxX = Math.min(Math.max(...corners.map(c => c.x)) - layer.x, Math.max(...layerChunks.map(c => c.x + c.width)) - 1);
+                        const maxY = Math.min(Math.max(...corners.map(c => c.y)) - layer.y, Math.max(...layerChunks.map(c => c.y + c.height)) - 1);
+
+                        const visible = new Set<string>();
+                        for (let cy = Math.floor(minY / chunkSize); cy <= Math.floor(maxY / chunkSize); ++cy) {
+                            for (let cx = Math.floor(minX / chunkSize); cx <= Math.floor(maxX / chunkSize); ++cx) {
+                                const key = cx + "," + cy;
+                                visible.add(key);
+                                if (!chunkColliders.has(key)) loadChunk(cx, cy);
+                            }
+                        }
+
+                        for (const key of Array.from(chunkColliders.keys())) {
+                            if (!visible.has(key)) unloadChunk(key);
+                        }
+                    });
+                    break;
+                }
+                case "imagelayer": {
+                    const imageLayer = layer as ImageLayer;
+                    if (!imageLayer.tileset) break;
+
+                    const x = imageLayer.x * tileWidth + offsetX;
+                    const y = imageLayer.y * tileHeight + offsetY;
+                    const w = imageLayer.imageWidth * tileWidth / tilemap.tileWidth;
+                    const h = imageLayer.imageHeight * tileHeight / tilemap.tileHeight;
+
+                    if (imageLayer.repeatX || imageLayer.repeatY) {
+                        // Backdrops add their sprites on update, to the dynamic layer of their z-index
+                        useSceneLayer(this.getLayer(zIndex, false) || this.createLayer({ zIndex, isStatic: false }));
+                        backdrops.push(new Backdrop(this, {
+                            tileset: imageLayer.tileset,
+                            x,
+                            y,
+                            width: w,
+                            height: h,
+                            repeatX: imageLayer.repeatX,
+                            repeatY: imageLayer.repeatY,
+                            zIndex
+                        }));
+                    } else {
+                        const s = new Sprite({
+                            isStatic: true,
+                            zIndex,
+                            tileset: imageLayer.tileset
+                        });
+
+                        s.position.set(x, y);
+                        s.scale.set(w, h);
+
+                        sprites.push(addSprite(s));
+                    }
+                    break;
+                }
+                case "objectgroup": {
+                    const objects = (layer as ObjectLayer).getObjects();
+                    for (const obj of objects) {
+                        const position = tilemap.pixelToScreen(obj.x, obj.y);
+                        const x = position.x * scaleX + offsetX;
+                        const y = position.y * scaleY + offsetY;
+                        const w = obj.width * tileWidth / tilemap.tileWidth;
+                        const h = obj.height * tileHeight / tilemap.tileHeight
+
+                        let s: Sprite | null = null;
+
+                        if (obj.tile && obj.visible && config.tileObjectSprites !== false) {
+                            const tile = obj.tile;
+
+                            s = new Sprite({
+                                isStatic: false,
                                 zIndex,
                                 tileset: tile.tileset,
-                                tilesetRegion: { x: tile.x, y: tile.y }
+                                tilesetRegion: { x: tile.x, y: tile.y },
+                                flipH: obj.flipH,
+                                flipV: obj.flipV,
+                                flipD: obj.flipD
                             });
 
-                            s.position.set((j + layer.x) * tileWidth, (i + layer.y) * tileHeight);
-                            s.scale.set(tileWidth, tileHeight);
+                            const spriteW = w || tile.width * tileWidth / tilemap.tileWidth;
+                            const spriteH = h || tile.height * tileHeight / tilemap.tileHeight;
+
+                            const tileOffset = tile.tileset.tileOffset;
 
-                            sprites.push(this.addSprite(s));
+                            // Tile objects are anchored at their bottom-left corner, or bottom-center on isometric maps
+                            s.position.set(x, y);
+                            s.offset.set(
+                                (isometric ? -spriteW * 0.5 : 0) + tileOffset.x * scaleX,
+                                -spriteH + tileOffset.y * scaleY
+                            );
+                            s.scale.set(spriteW, spriteH);
+                            s.angle = obj.rotation;
+
+                            sprites.push(addSprite(s));
 
                             if (tile.animation) {
                                 const animator = new Animator(s);
@@ -132,18 +565,25 @@ export class Scene {
                                 animators.push(animator);
                             }
                         }
-                    }
-                    break;
-                }
-                case "objectgroup": {
-                    if (config.onObject) {
-                        const objects = (layer as ObjectLayer).getObjects();
-                        for (const obj of objects) {
-                            const x = obj.x * tileWidth / tilemap.tileWidth;
-                            const y = obj.y * tileHeight / tilemap.tileHeight;
-                            const w = obj.width * tileWidth / tilemap.tileWidth;
-                            const h = obj.height * tileHeight / tilemap.tileHeight
-                            config.onObject(obj, x, y, w, h, zIndex, this, layer as ObjectLayer);
+
+                        const createColliders = typeof config.objectColliders === "function" ?
+                            config.objectColliders(obj, layer as ObjectLayer) :
+                            config.objectColliders;
+
+                        if (createColliders) {
+                            const objectColliders = obj.createColliders(
+                                new Vector(scaleX, scaleY),
+                                new Vector(offsetX, offsetY),
+                                isometric ? point => tilemap.pixelToScreen(point.x, point.y) : undefined
+                            );
+                            for (const collider of objectColliders) {
+                                collider.isStatic = true;
+                                colliders.push(this.addCollider(collider));
+                            }
+                        }
+
+                        if (config.onObject) {
+                            config.onObject(obj, x, y, w, h, zIndex, this, layer as ObjectLayer, s);
                         }
                     }
                     break;
@@ -153,9 +593,51 @@ export class Scene {
             ++zIndex;
         }
 
+        const remove = () => {
+            sprites.forEach(sprite => this.removeSprite(sprite));
+            colliders.forEach(collider => this.removeCollider(collider));
+            backdrops.forEach(backdrop => backdrop.destroy());
+            quads.forEach(quad => this.removeTilemapQuad(quad));
+            changeListeners.forEach(([layer, listener]) => layer.removeChangeListener(listener));
+            sprites.length = 0;
+            animators.length = 0;
+            backdrops.length = 0;
+            colliders.length = 0;
+            quads.length = 0;
+            streamedLayers.length = 0;
+
+            for (const sceneLayer of sceneLayers) {
+                const count = this.tilemapLayers.get(sceneLayer)! - 1;
+                if (count) {
+                    this.tilemapLayers.set(sceneLayer, count);
+                    continue;
+                }
+
+                this.tilemapLayers.delete(sceneLayer);
+                if (!sceneLayer.sprites.length && !sceneLayer.quads.length) {
+                    this.removeLayer(sceneLayer);
+                }
+            }
+            sceneLayers.clear();
+        };
+
+        const update = (camera: Camera) => {
+            for (const backdrop of backdrops) {
+                backdrop.update(camera);
+            }
+            for (const updateLayer of streamedLayers) {
+                updateLayer(camera);
+            }
+        };
+
         return {
             sprites,
-            animators
+            animators,
+            backdrops,
+            colliders,
+            quads,
+            update,
+            remove
         }
     }
 
@@ -165,6 +647,11 @@ export class Scene {
         return layer;
     }
 
+    public removeLayer(layer: SceneLayer) {
+        const i = this.layers.indexOf(layer);
+        if (i !== -1) this.layers.splice(i, 1);
+    }
+
     public getLayersOrdered() {
         return this.layers.sort((a, b) => a.zIndex - b.zIndex);
     }
@@ -211,6 +698,7 @@ export class Scene {
             sprites: spritesCount,
             staticSprites: staticSpritesCount,
             dynamicSprites: spritesCount - staticSpritesCount,
+            tilemapQuads: this.layers.reduce((quadsCount, layer) => quadsCount + layer.quads.length, 0),
             layers: this.layers.length
         };
     }
@@ -222,19 +710,66 @@ interface SceneLayerParams {
     zIndex: number;
     isStatic: boolean;
     renderOrder?: SceneLayerRenderOrder;
+    parallax?: Vector;
+    parallaxOrigin?: Vector;
+    opacity?: number;
+    tintColor?: Color;
+    visible?: boolean;
 }
 
 export class SceneLayer {
     zIndex: number;
     isStatic: boolean;
     sprites: Sprite[];
-    renderOrder: SceneLayerRenderOrder;
+    quads: TilemapQuad[];
+    renderOrder!: SceneLayerRenderOrder;
+    parallax!: Vector;
+    parallaxOrigin!: Vector;
+    opacity!: number;
+    tintColor!: Color;
+    visible!: boolean;
+    private changed: boolean;
+    private updatedSprites: Set<Sprite>;
 
     constructor(params: SceneLayerParams) {
         this.zIndex = params.zIndex;
         this.isStatic = params.isStatic;
-        this.renderOrder = params.renderOrder || "manual";
         this.sprites = [];
+        this.quads = [];
+        this.updatedSprites = new Set();
+        this.configure(params);
+        this.changed = false;
+    }
+
+    public configure(params: Omit<SceneLayerParams, "zIndex" | "isStatic">) {
+        this.renderOrder = params.renderOrder || "manual";
+        this.parallax = params.parallax ? params.parallax.clone() : new Vector(1, 1);
+        this.parallaxOrigin = params.parallaxOrigin ? params.parallaxOrigin.clone() : new Vector();
+        this.opacity = params.opacity ?? 1;
+        this.tintColor = params.tintColor ? params.tintColor.clone() : new Color(1, 1, 1, 1);
+        this.visible = params.visible ?? true;
+        this.changed = true;
+    }
+
+    public getCameraPosition(camera: Camera) {
+        return new Vector(
+            camera.position.x - (camera.position.x + camera.vw * 0.5 - this.parallaxOrigin.x) * (1 - this.parallax.x),
+            camera.position.y - (camera.position.y + camera.vh * 0.5 - this.parallaxOrigin.y) * (1 - this.parallax.y)
+        );
+    }
+
+    public getTint() {
+        const tint = this.tintColor.clone();
+        tint.a *= this.opacity;
+        return tint;
+    }
+
+    public getCameraBounds(camera: Camera): Bounds {
+        const min = this.getCameraPosition(camera);
+        return {
+            min,
+            max: min.clone().add(new Vector(camera.vw, camera.vh))
+        };
     }
 
     public add(sprite: Sprite) {
@@ -254,11 +789,36 @@ export class SceneLayer {
         } else {
             this.sprites.push(sprite);
         }
+        this.changed = true;
     }
 
     public remove(sprite: Sprite) {
         const i = this.sprites.indexOf(sprite);
         if (i !== -1) this.sprites.splice(i, 1);
+        this.changed = true;
+    }
+
+    public updateSprite(sprite: Sprite) {
+        this.updatedSprites.add(sprite);
+    }
+
+    public addQuad(quad: TilemapQuad) {
+        this.quads.push(quad);
+    }
+
+    public removeQuad(quad: TilemapQuad) {
+        const i = this.quads.indexOf(quad);
+        if (i !== -1) this.quads.splice(i, 1);
+    }
+
+    public takeChanges() {
+        const changes = {
+            rebuild: this.changed,
+            sprites: Array.from(this.updatedSprites)
+        };
+        this.changed = false;
+        this.updatedSprites.clear();
+        return changes;
     }
 
     public getSpritesOrdered() {
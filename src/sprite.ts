@@ -8,6 +8,10 @@ import { Vector } from "./Vector";
         tilesetRegion?: TilesetRegion;
         zIndex?: number;
         isStatic?: boolean;
+        flipH?: boolean;
+        flipV?: boolean;
+        flipD?: boolean;
+        animated?: boolean;
     }
 
 export class Sprite {
@@ -21,6 +25,10 @@ export class Sprite {
     angle: number;
     tintColor: Color;
     maskColor: Color;
+    flipH: boolean;
+    flipV: boolean;
+    flipD: boolean;
+    animated: boolean;
 
     constructor(params: SpriteParams) {
         this.zIndex = params.zIndex || 0;
@@ -29,13 +37,15 @@ export class Sprite {
         this.isStatic = params.isStatic || false;
         this.position = new Vector();
         this.offset = new Vector();
-        this.scale = new Vector(
-            this.tileset.tileWidth * (this.tilesetRegion.width || 1), 
-            this.tileset.tileHeight * (this.tilesetRegion.height || 1)
-        );
+        const size = this.tileset.getRegionSize(this.tilesetRegion);
+        this.scale = new Vector(size.x, size.y);
         this.angle = 0;
         this.tintColor = new Color(1, 1, 1, 1);
         this.maskColor = new Color(0, 0, 0, 1);
+        this.flipH = params.flipH || false;
+        this.flipV = params.flipV || false;
+        this.flipD = params.flipD || false;
+        this.animated = params.animated || false;
     }
 
     public setTilesetRegion(x: number, y: number, width: number = 1, height: number = 1) {
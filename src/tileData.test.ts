@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { tileData } from "./tileData";
+
+const gidsToBytes = (gids: number[]) => {
+    const view = new DataView(new ArrayBuffer(gids.length * 4));
+    gids.forEach((gid, i) => view.setUint32(i * 4, gid, true));
+    return new Uint8Array(view.buffer);
+};
+
+const bytesToBase64 = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes));
+
+const compress = async (bytes: Uint8Array, format: CompressionFormat) => {
+    const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+describe("tileData.decode", () => {
+    const gids = [1, 0, 42, 0x80000003];
+
+    it("returns arrays unchanged", async () => {
+        expect(await tileData.decode([1, 2, 3])).toEqual([1, 2, 3]);
+    });
+
+    it("decodes csv", async () => {
+        expect(await tileData.decode("\n1,0,\n42,2147483651\n", "csv")).toEqual(gids);
+    });
+
+    it("decodes uncompressed base64 with the flip flags", async () => {
+        expect(await tileData.decode(` ${bytesToBase64(gidsToBytes(gids))}\n`, "base64")).toEqual(gids);
+    });
+
+    it("decodes zlib and gzip compressed base64", async () => {
+        const zlib = bytesToBase64(await compress(gidsToBytes(gids), "deflate"));
+        const gzip = bytesToBase64(await compress(gidsToBytes(gids), "gzip"));
+
+        expect(await tileData.decode(zlib, "base64", "zlib")).toEqual(gids);
+        expect(await tileData.decode(gzip, "base64", "gzip")).toEqual(gids);
+    });
+
+    it("uses registered decompressors", async () => {
+        tileData.registerDecompressor("reversed", bytes => bytes.slice().reverse());
+        const reversed = bytesToBase64(gidsToBytes([7, 9]).reverse());
+
+        expect(await tileData.decode(reversed, "base64", "reversed" as "zstd")).toEqual([7, 9]);
+    });
+
+    it("rejects unknown compression and truncated data", async () => {
+        await expect(tileData.decode("AAAA", "base64", "zstd")).rejects.toThrow('Unsupported tile layer compression "zstd"');
+        await expect(tileData.decode(bytesToBase64(new Uint8Array(6)), "base64")).rejects.toThrow("not a multiple of 4 bytes");
+    });
+});
@@ -0,0 +1,77 @@
+export type TileDataEncoding = "csv" | "base64";
+export type TileDataCompression = "" | "zlib" | "gzip" | "zstd";
+
+export type Decompressor = (bytes: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+
+export const tileData = (() => {
+    const decompressStream = async (bytes: Uint8Array, format: CompressionFormat) => {
+        const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream(format));
+        return new Uint8Array(await new Response(stream).arrayBuffer());
+    };
+
+    const decompressors = new Map<string, Decompressor>([
+        ["zlib", bytes => decompressStream(bytes, "deflate")],
+        ["gzip", bytes => decompressStream(bytes, "gzip")]
+    ]);
+
+    const registerDecompressor = (compression: string, decompressor: Decompressor) => {
+        decompressors.set(compression, decompressor);
+    };
+
+    const decodeBase64 = (str: string) => {
+        const binary = atob(str.trim());
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; ++i) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    };
+
+    const bytesToGids = (bytes: Uint8Array) => {
+        if (bytes.byteLength % 4 !== 0) {
+            throw new Error("Tile layer data length is not a multiple of 4 bytes");
+        }
+
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const gids: number[] = new Array(bytes.byteLength / 4);
+        for (let i = 0; i < gids.length; ++i) {
+            gids[i] = view.getUint32(i * 4, true);
+        }
+        return gids;
+    };
+
+    const decode = async (data: number[] | string, encoding: TileDataEncoding = "csv", compression: TileDataCompression = ""): Promise<number[]> => {
+        if (Array.isArray(data)) {
+            return data;
+        }
+
+        switch (encoding) {
+            case "csv":
+                return data.split(",")
+                    .map(token => token.trim())
+                    .filter(token => token.length > 0)
+                    .map(Number);
+            case "base64": {
+                let bytes: Uint8Array = decodeBase64(data);
+
+                if (compression) {
+                    const decompressor = decompressors.get(compression);
+                    if (!decompressor) {
+                        throw new Error(`Unsupported tile layer compression "${compression}", register one with tileData.registerDecompressor()`);
+                    }
+                    bytes = await decompressor(bytes);
+                }
+
+                return bytesToGids(bytes);
+            }
+            default:
+                throw new Error(`Unsupported tile layer encoding "${encoding}"`);
+        }
+    };
+
+    return {
+        decode,
+        decodeBase64,
+        registerDecompressor
+    };
+})();
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { BoxCollider, PolygonCollider } from "./Collider";
+import { TileLayer, Tilemap, TilemapJSON } from "./Tilemap";
+import { tilemapColliders } from "./tilemapColliders";
+import { Vector } from "./Vector";
+
+const FLIP_H = 0x80000000;
+
+const loadLayer = async () => {
+    const json = {
+        width: 4, height: 3, tilewidth: 16, tileheight: 16, orientation: "orthogonal", infinite: false,
+        tilesets: [{
+            firstgid: 1, name: "t", tilewidth: 16, tileheight: 16, tilecount: 2, columns: 2,
+            image: "t.png", imagewidth: 32, imageheight: 16,
+            tiles: [
+                { id: 0, objectgroup: { objects: [{ id: 1, x: 0, y: 0, width: 16, height: 16 }] } },
+                { id: 1, objectgroup: { objects: [{ id: 1, x: 0, y: 0, polygon: [{ x: 0, y: 0 }, { x: 16, y: 0 }, { x: 0, y: 16 }] }] } }
+            ]
+        }],
+        layers: [{
+            type: "tilelayer", name: "ground", x: 0, y: 0, width: 4, height: 3,
+            data: [
+                1, 1, 0, 2,
+                1, 1, 0, 0,
+                0, 0, 0, (FLIP_H | 2) >>> 0
+            ]
+        }]
+    } as unknown as TilemapJSON;
+
+    const tilemap = await Tilemap.fromJSON(json);
+    return tilemap.getLayerByName("ground") as TileLayer;
+};
+
+const describeCollider = (collider: unknown) => collider instanceof BoxCollider ?
+    { box: [collider.position.x, collider.position.y, collider.width, collider.height] } :
+    { polygon: (collider as PolygonCollider).getWorldPoints().map(p => [p.x, p.y]) };
+
+describe("tilemapColliders.createTileLayerColliders", () => {
+    it("merges full tiles into boxes and keeps tile shapes", async () => {
+        const layer = await loadLayer();
+        const colliders = tilemapColliders.createTileLayerColliders(layer, new Vector(16, 16));
+
+        expect(colliders.map(describeCollider)).toEqual([
+            { polygon: [[48, 0], [64, 0], [48, 16]] },
+            { polygon: [[64, 48], [48, 32], [64, 32]] },
+            { box: [0, 0, 32, 32] }
+        ]);
+    });
+
+    it("scales by the tile size and moves by the offset", async () => {
+        const layer = await loadLayer();
+        const colliders = tilemapColliders.createTileLayerColliders(layer, new Vector(32, 32), new Vector(100, 0));
+
+        expect(colliders.map(describeCollider)).toContainEqual({ box: [100, 0, 64, 64] });
+        expect(colliders.map(describeCollider)).toContainEqual({ polygon: [[196, 0], [228, 0], [196, 32]] });
+    });
+
+    it("only creates colliders inside the region", async () => {
+        const layer = await loadLayer();
+
+        expect(tilemapColliders.createTileLayerColliders(layer, new Vector(16, 16), new Vector(), { x: 1, y: 0, width: 3, height: 2 })
+            .map(describeCollider)).toEqual([
+                { polygon: [[48, 0], [64, 0], [48, 16]] },
+                { box: [16, 0, 16, 32] }
+            ]);
+        expect(tilemapColliders.createTileLayerColliders(layer, new Vector(16, 16), new Vector(), { x: 10, y: 10, width: 2, height: 2 }))
+            .toEqual([]);
+    });
+});
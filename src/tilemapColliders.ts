@@ -0,0 +1,146 @@
+import { BoxCollider, CircleCollider, Collider, PolygonCollider } from "./Collider";
+import { TileLayer } from "./Tilemap";
+import { Tile, TileRect } from "./Tileset";
+import { Vector } from "./Vector";
+
+export const tilemapColliders = (() => {
+    const isFullTile = (tile: Tile) => {
+        if (tile.collisionObjects.length !== 1) return false;
+
+        const obj = tile.collisionObjects[0];
+        return !obj.polygon && !obj.polyline && !obj.ellipse && !obj.point && !obj.rotation &&
+            obj.x === 0 && obj.y === 0 &&
+            obj.width === tile.width && obj.height === tile.height;
+    };
+
+    const mergeRectangles = (solid: Uint8Array, width: number, height: number) => {
+        const rects: { x: number; y: number; width: number; height: number; }[] = [];
+        const visited = new Uint8Array(solid.length);
+
+        for (let y = 0; y < height; ++y) {
+            for (let x = 0; x < width; ++x) {
+                const i = y * width + x;
+                if (!solid[i] || visited[i]) continue;
+
+                let w = 1;
+                while (x + w < width && solid[i + w] && !visited[i + w]) ++w;
+
+                let h = 1;
+                expand: while (y + h < height) {
+                    for (let k = 0; k < w; ++k) {
+                        const j = (y + h) * width + x + k;
+                        if (!solid[j] || visited[j]) break expand;
+                    }
+                    ++h;
+                }
+
+                for (let dy = 0; dy < h; ++dy) {
+                    visited.fill(1, (y + dy) * width + x, (y + dy) * width + x + w);
+                }
+
+                rects.push({ x, y, width: w, height: h });
+            }
+        }
+
+        return rects;
+    };
+
+    const createTileShapeColliders = (tile: Tile, flip: { flipH: boolean; flipV: boolean; flipD: boolean; }, position: Vector, scale: Vector) => {
+        const tw = tile.width;
+        const th = tile.height;
+
+        const transform = (point: Vector) => {
+            let { x, y } = point;
+            if (flip.flipD) [x, y] = [y, x];
+            if (flip.flipH) x = tw - x;
+            if (flip.flipV) y = th - y;
+            return new Vector(x * scale.x, y * scale.y);
+        };
+
+        const mirrored = (flip.flipH ? 1 : 0) + (flip.flipV ? 1 : 0) + (flip.flipD ? 1 : 0);
+
+        const result: Collider[] = [];
+        for (const shape of tile.getCollisionShapes()) {
+            for (const collider of shape.createColliders()) {
+                if (collider instanceof CircleCollider) {
+                    const circle = new CircleCollider(collider.radius * Math.min(scale.x, scale.y));
+                    circle.position.copy(transform(collider.getCenter()).add(position));
+                    result.push(circle);
+                } else if (collider instanceof PolygonCollider) {
+                    const points = collider.getWorldPoints().map(transform);
+                    const polygon = new PolygonCollider(mirrored % 2 === 1 ? points.reverse() : points);
+                    polygon.position.copy(position);
+                    result.push(polygon);
+                }
+            }
+        }
+        return result;
+    };
+
+    const createTileLayerColliders = (layer: TileLayer, tileSize: Vector, offset: Vector = new Vector(), region?: TileRect) => {
+        const chunks = layer.getChunks();
+        if (!chunks.length) return [];
+
+        let minX = Infinity, minY = Infinity;
+        let maxX = -Infinity, maxY = -Infinity;
+        for (const chunk of chunks) {
+            minX = Math.min(minX, chunk.x);
+            minY = Math.min(minY, chunk.y);
+            maxX = Math.max(maxX, chunk.x + chunk.width);
+            maxY = Math.max(maxY, chunk.y + chunk.height);
+        }
+
+        if (region) {
+            minX = Math.max(minX, region.x);
+            minY = Math.max(minY, region.y);
+            maxX = Math.min(maxX, region.x + region.width);
+            maxY = Math.min(maxY, region.y + region.height);
+            if (minX >= maxX || minY >= maxY) return [];
+        }
+
+        const tilemap = layer.tilemap;
+        const isOrthogonal = tilemap.orientation === "orthogonal";
+        const mapScale = new Vector(tileSize.x / tilemap.tileWidth, tileSize.y / tilemap.tileHeight);
+
+        const width = maxX - minX;
+        const height = maxY - minY;
+        const solid = new Uint8Array(width * height);
+
+        const result: Collider[] = [];
+
+        for (const chunk of chunks) {
+            for (let i = Math.max(chunk.y, minY); i < Math.min(chunk.y + chunk.height, maxY); ++i) {
+                for (let j = Math.max(chunk.x, minX); j < Math.min(chunk.x + chunk.width, maxX); ++j) {
+                    const tile = layer.getTile(j, i);
+                    if (!tile || !tile.collisionObjects.length) continue;
+
+                    const cell = tilemap.tileToScreen(j + layer.x, i + layer.y);
+                    const rect = tilemap.getTileRect(tile, j + layer.x, i + layer.y);
+                    const fillsCell = rect.x === cell.x && rect.y === cell.y &&
+                        rect.width === tilemap.tileWidth && rect.height === tilemap.tileHeight;
+
+                    if (isOrthogonal && fillsCell && isFullTile(tile)) {
+                        solid[(i - minY) * width + (j - minX)] = 1;
+                        continue;
+                    }
+
+                    const position = new Vector(rect.x, rect.y).mul(mapScale).add(offset);
+                    const scale = new Vector(rect.width / tile.width, rect.height / tile.height).mul(mapScale);
+                    result.push(...createTileShapeColliders(tile, layer.getTileFlip(j, i), position, scale));
+                }
+            }
+        }
+
+        for (const rect of mergeRectangles(solid, width, height)) {
+            const box = new BoxCollider(rect.width * tileSize.x, rect.height * tileSize.y);
+            box.position.set((rect.x + minX + layer.x) * tileSize.x, (rect.y + minY + layer.y) * tileSize.y).add(offset);
+            result.push(box);
+        }
+
+        return result;
+    };
+
+    return {
+        createTileLayerColliders
+    };
+})();
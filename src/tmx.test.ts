@@ -0,0 +1,95 @@
+import { DOMParser } from "linkedom";
+import { describe, expect, it } from "vitest";
+import { tmx } from "./tmx";
+
+const parseXml = (text: string) =>
+    new DOMParser().parseFromString(text, "text/xml") as unknown as Document;
+
+describe("tmx.parseTilemap", () => {
+    it("reads map attributes and defaults", () => {
+        const map = tmx.parseTilemap(parseXml(`
+            <map width="10" height="8" tilewidth="16" tileheight="16" orientation="isometric" infinite="1">
+                <properties><property name="music" value="forest.ogg"/></properties>
+            </map>`));
+
+        expect(map).toMatchObject({
+            width: 10,
+            height: 8,
+            tilewidth: 16,
+            tileheight: 16,
+            orientation: "isometric",
+            staggeraxis: "y",
+            staggerindex: "odd",
+            infinite: true,
+            tilesets: [],
+            layers: [],
+            properties: [{ name: "music", type: "string", value: "forest.ogg" }]
+        });
+    });
+
+    it("rejects other root elements", () => {
+        expect(() => tmx.parseTilemap(parseXml(`<tileset name="t"/>`))).toThrow("Expected <map> root element, got <tileset>");
+    });
+
+    it("reads external and embedded tilesets", () => {
+        const map = tmx.parseTilemap(parseXml(`
+            <map width="1" height="1" tilewidth="16" tileheight="16">
+                <tileset firstgid="1" source="terrain.tsx"/>
+                <tileset firstgid="65" name="items" tilewidth="16" tileheight="16" tilecount="4" columns="2">
+                    <image source="items.png" width="32" height="32"/>
+                    <tile id="2"><animation><frame tileid="2" duration="100"/></animation></tile>
+                </tileset>
+            </map>`));
+
+        expect(map.tilesets[0]).toEqual({ firstgid: 1, source: "terrain.tsx" });
+        expect(map.tilesets[1]).toMatchObject({
+            firstgid: 65,
+            name: "items",
+            image: "items.png",
+            imagewidth: 32,
+            imageheight: 32,
+            tilecount: 4,
+            columns: 2
+        });
+        expect(map.tilesets[1].tiles?.map(tile => tile.id)).toEqual([2]);
+    });
+
+    it("reads tile layers as xml, csv and chunks", () => {
+        const map = tmx.parseTilemap(parseXml(`
+            <map width="2" height="1" tilewidth="16" tileheight="16">
+                <layer name="xml" width="2" height="1"><data><tile gid="3"/><tile/></data></layer>
+                <layer name="csv" width="2" height="1" opacity="0.5" visible="0" parallaxx="0.5"><data encoding="csv">1,2</data></layer>
+                <layer name="chunks" width="2" height="1"><data encoding="csv"><chunk x="-16" y="0" width="2" height="1">4,5</chunk></data></layer>
+            </map>`));
+
+        const [xml, csv, chunks] = map.layers;
+        expect(xml).toMatchObject({ type: "tilelayer", name: "xml", data: [3, 0], opacity: 1, visible: true });
+        expect(xml.encoding).toBeUndefined();
+        expect(csv).toMatchObject({ data: "1,2", encoding: "csv", compression: "", opacity: 0.5, visible: false, parallaxx: 0.5, parallaxy: 1 });
+        expect(chunks.chunks).toEqual([{ x: -16, y: 0, width: 2, height: 1, data: "4,5" }]);
+    });
+
+    it("reads object, image and group layers", () => {
+        const map = tmx.parseTilemap(parseXml(`
+            <map width="1" height="1" tilewidth="16" tileheight="16">
+                <group name="g" offsetx="4">
+                    <objectgroup name="objects" draworder="index">
+                        <object id="1" name="door" class="Door" x="8" y="16" width="16" height="32"/>
+                        <object id="2" x="0" y="0"><polygon points="0,0 16,0 16,16"/></object>
+                        <object id="3" template="chest.tx" x="32"/>
+                    </objectgroup>
+                    <imagelayer name="sky" repeatx="1"><image source="sky.png" width="64" height="32"/></imagelayer>
+                </group>
+            </map>`));
+
+        const group = map.layers[0];
+        expect(group).toMatchObject({ type: "group", name: "g", offsetx: 4 });
+
+        const [objects, image] = group.layers!;
+        expect(objects).toMatchObject({ type: "objectgroup", draworder: "index" });
+        expect(objects.objects![0]).toMatchObject({ id: 1, name: "door", type: "Door", x: 8, y: 16, width: 16, height: 32, visible: true });
+        expect(objects.objects![1].polygon).toEqual([{ x: 0, y: 0 }, { x: 16, y: 0 }, { x: 16, y: 16 }]);
+        expect(objects.objects![2]).toEqual({ id: 3, x: 32, template: "chest.tx" });
+        expect(image).toMatchObject({ type: "imagelayer", image: "sky.png", imagewidth: 64, imageheight: 32, repeatx: true, repeaty: false });
+    });
+});
@@ -0,0 +1,359 @@
+import { TemplateJSON } from "./Template";
+import { TileDataCompression, TileDataEncoding } from "./tileData";
+import { TilemapJSON, TilemapLayerJSON, TilemapObjectJSON, TilemapTileset } from "./Tilemap";
+import { TileDataJSON, TileFillMode, TilePropertyJSON, TilePropertyType, TilePropertyValue, TileRenderSize, TilesetJSON } from "./Tileset";
+import { WangSetJSON, WangSetType } from "./WangSet";
+
+export const tmx = (() => {
+    const getChildren = (el: Element, tagName: string) =>
+        Array.from(el.children).filter(child => child.tagName === tagName);
+
+    const getChild = (el: Element, tagName: string) =>
+        getChildren(el, tagName)[0] || null;
+
+    const getNumber = (el: Element, name: string, defaultValue: number = 0) => {
+        const value = el.getAttribute(name);
+        return value === null ? defaultValue : Number(value);
+    };
+
+    const getString = (el: Element, name: string, defaultValue: string = "") =>
+        el.getAttribute(name) ?? defaultValue;
+
+    const isXml = (url: string) =>
+        /\.(tmx|tsx|tx|xml)$/i.test(url.split(/[?#]/)[0]);
+
+    const parsePropertyValue = (propertyEl: Element, type: TilePropertyType): TilePropertyValue => {
+        if (type === "class") {
+            const members: Record<string, TilePropertyValue> = {};
+            for (const member of parseProperties(propertyEl) || []) {
+                members[member.name] = member.value;
+            }
+            return members;
+        }
+
+        const raw = propertyEl.getAttribute("value") ?? propertyEl.textContent ?? "";
+        switch (type) {
+            case "int":
+            case "float":
+            case "object":
+                return Number(raw);
+            case "bool":
+                return raw === "true";
+            default:
+                return raw;
+        }
+    };
+
+    const parseProperties = (el: Element): TilePropertyJSON[] | undefined => {
+        const propertiesEl = getChild(el, "properties");
+        if (!propertiesEl) return undefined;
+
+        return getChildren(propertiesEl, "property").map(propertyEl => {
+            const type = getString(propertyEl, "type", "string") as TilePropertyType;
+            const property: TilePropertyJSON = {
+                name: getString(propertyEl, "name"),
+                type,
+                value: parsePropertyValue(propertyEl, type)
+            };
+
+            if (propertyEl.hasAttribute("propertytype")) {
+                property.propertytype = getString(propertyEl, "propertytype");
+            }
+
+            return property;
+        });
+    };
+
+    const parseTileData = (el: Element): TileDataJSON => {
+        const tileData: TileDataJSON = {
+            id: getNumber(el, "id"),
+            properties: parseProperties(el)
+        };
+
+        const imageEl = getChild(el, "image");
+        if (imageEl) {
+            tileData.image = getString(imageEl, "source");
+            tileData.imagewidth = getNumber(imageEl, "width");
+            tileData.imageheight = getNumber(imageEl, "height");
+
+            // Sub-rectangles of tile images are only stored when they differ from the whole image
+            for (const name of ["x", "y", "width", "height"] as const) {
+                if (el.hasAttribute(name)) tileData[name] = getNumber(el, name);
+            }
+        }
+
+        const objectGroupEl = getChild(el, "objectgroup");
+        if (objectGroupEl) {
+            tileData.objectgroup = { objects: getChildren(objectGroupEl, "object").map(parseObject) };
+        }
+
+        const animationEl = getChild(el, "animation");
+        if (animationEl) {
+            tileData.animation = getChildren(animationEl, "frame").map(frameEl => ({
+                tileid: getNumber(frameEl, "tileid"),
+                duration: getNumber(frameEl, "duration")
+            }));
+        }
+
+        return tileData;
+    };
+
+    const parseWangSet = (el: Element): WangSetJSON => ({
+        name: getString(el, "name"),
+        type: getString(el, "type", "corner") as WangSetType,
+        tile: getNumber(el, "tile", -1),
+        colors: getChildren(el, "wangcolor").map(colorEl => ({
+            name: getString(colorEl, "name"),
+            color: getString(colorEl, "color"),
+            tile: getNumber(colorEl, "tile", -1),
+            probability: getNumber(colorEl, "probability", 1),
+            properties: parseProperties(colorEl)
+        })),
+        wangtiles: getChildren(el, "wangtile").map(tileEl => ({
+            tileid: getNumber(tileEl, "tileid"),
+            wangid: getString(tileEl, "wangid").split(",").map(Number)
+        })),
+        properties: parseProperties(el)
+    });
+
+    const parseTilesetElement = (el: Element): TilesetJSON => {
+        const imageEl = getChild(el, "image");
+        const wangSetsEl = getChild(el, "wangsets");
+        const tileOffsetEl = getChild(el, "tileoffset");
+
+        return {
+            name: getString(el, "name"),
+            image: imageEl ? getString(imageEl, "source") : undefined,
+            tilewidth: getNumber(el, "tilewidth"),
+            tileheight: getNumber(el, "tileheight"),
+            tilecount: getNumber(el, "tilecount"),
+            columns: getNumber(el, "columns"),
+            margin: getNumber(el, "margin"),
+            spacing: getNumber(el, "spacing"),
+            imagewidth: imageEl ? getNumber(imageEl, "width") : 0,
+            imageheight: imageEl ? getNumber(imageEl, "height") : 0,
+            tiles: getChildren(el, "tile").map(parseTileData),
+            wangsets: wangSetsEl ? getChildren(wangSetsEl, "wangset").map(parseWangSet) : undefined,
+            tileoffset: tileOffsetEl ? { x: getNumber(tileOffsetEl, "x"), y: getNumber(tileOffsetEl, "y") } : undefined,
+            tilerendersize: getString(el, "tilerendersize", "tile") as TileRenderSize,
+            fillmode: getString(el, "fillmode", "stretch") as TileFillMode
+        };
+    };
+
+    const parseTilesetReference = (el: Element): TilemapTileset => {
+        const firstgid = getNumber(el, "firstgid", 1);
+        const source = el.getAttribute("source");
+
+        if (source !== null) {
+            return { firstgid, source } as TilemapTileset;
+        }
+
+        return { ...parseTilesetElement(el), firstgid };
+    };
+
+    const parseDataContent = (el: Element, encoding: string | null): number[] | string => {
+        if (encoding === null) {
+            return getChildren(el, "tile").map(tileEl => getNumber(tileEl, "gid"));
+        }
+        return (el.textContent || "").trim();
+    };
+
+    const parseLayerData = (el: Element): Pick<TilemapLayerJSON, "data" | "chunks" | "encoding" | "compression"> => {
+        const dataEl = getChild(el, "data");
+        if (!dataEl) return { data: [] };
+
+        const encoding = dataEl.getAttribute("encoding");
+        const chunkEls = getChildren(dataEl, "chunk");
+
+        const result: Pick<TilemapLayerJSON, "data" | "chunks" | "encoding" | "compression"> = chunkEls.length ?
+            {
+                chunks: chunkEls.map(chunkEl => ({
+                    x: getNumber(chunkEl, "x"),
+                    y: getNumber(chunkEl, "y"),
+                    width: getNumber(chunkEl, "width"),
+                    height: getNumber(chunkEl, "height"),
+                    data: parseDataContent(chunkEl, encoding)
+                }))
+            } :
+            { data: parseDataContent(dataEl, encoding) };
+
+        if (encoding !== null) {
+            result.encoding = encoding as TileDataEncoding;
+            result.compression = getString(dataEl, "compression") as TileDataCompression;
+        }
+
+        return result;
+    };
+
+    const parseObject = (el: Element): TilemapObjectJSON => {
+        const obj: TilemapObjectJSON = {
+            id: getNumber(el, "id"),
+            name: getString(el, "name"),
+            type: el.getAttribute("type") ?? getString(el, "class"),
+            x: getNumber(el, "x"),
+            y: getNumber(el, "y"),
+            width: getNumber(el, "width"),
+            height: getNumber(el, "height"),
+            rotation: getNumber(el, "rotation"),
+            visible: getNumber(el, "visible", 1) !== 0,
+            properties: parseProperties(el)
+        };
+
+        if (el.hasAttribute("gid")) {
+            obj.gid = getNumber(el, "gid");
+        }
+
+        const template = el.getAttribute("template");
+        if (template !== null) {
+            // Template instances only store the attributes they override
+            const overrides = obj as Partial<TilemapObjectJSON>;
+            const attributes: [keyof TilemapObjectJSON, string[]][] = [
+                ["name", ["name"]], ["type", ["type", "class"]], ["x", ["x"]], ["y", ["y"]],
+                ["width", ["width"]], ["height", ["height"]], ["rotation", ["rotation"]], ["visible", ["visible"]]
+            ];
+            for (const [key, names] of attributes) {
+                if (!names.some(name => el.hasAttribute(name))) delete overrides[key];
+            }
+            if (!overrides.properties) delete overrides.properties;
+            obj.template = template;
+        }
+
+        const parsePoints = (pointsEl: Element) =>
+            getString(pointsEl, "points").trim().split(/\s+/).map(pair => {
+                const [x, y] = pair.split(",").map(Number);
+                return { x, y };
+            });
+
+        const polygonEl = getChild(el, "polygon");
+        const polylineEl = getChild(el, "polyline");
+
+        if (polygonEl) obj.polygon = parsePoints(polygonEl);
+        if (polylineEl) obj.polyline = parsePoints(polylineEl);
+        if (getChild(el, "ellipse")) obj.ellipse = true;
+        if (getChild(el, "point")) obj.point = true;
+
+        return obj;
+    };
+
+    const parseLayers = (el: Element) => {
+        const layers: TilemapLayerJSON[] = [];
+        for (const child of Array.from(el.children)) {
+            const layer = parseLayer(child);
+            if (layer) layers.push(layer);
+        }
+        return layers;
+    };
+
+    const parseLayer = (el: Element): TilemapLayerJSON | null => {
+        const base = {
+            name: getString(el, "name"),
+            x: getNumber(el, "x"),
+            y: getNumber(el, "y"),
+            width: getNumber(el, "width"),
+            height: getNumber(el, "height"),
+            offsetx: getNumber(el, "offsetx"),
+            offsety: getNumber(el, "offsety"),
+            opacity: getNumber(el, "opacity", 1),
+            visible: getNumber(el, "visible", 1) !== 0,
+            tintcolor: el.getAttribute("tintcolor") ?? undefined,
+            parallaxx: getNumber(el, "parallaxx", 1),
+            parallaxy: getNumber(el, "parallaxy", 1),
+            properties: parseProperties(el)
+        };
+
+        switch (el.tagName) {
+            case "layer":
+                return {
+                    ...base,
+                    type: "tilelayer",
+                    ...parseLayerData(el)
+                };
+            case "objectgroup":
+                return {
+                    ...base,
+                    type: "objectgroup",
+                    draworder: getString(el, "draworder", "topdown") as TilemapLayerJSON["draworder"],
+                    objects: getChildren(el, "object").map(parseObject)
+                };
+            case "imagelayer": {
+                const imageEl = getChild(el, "image");
+                return {
+                    ...base,
+                    type: "imagelayer",
+                    image: imageEl ? getString(imageEl, "source") : "",
+                    imagewidth: imageEl ? getNumber(imageEl, "width") : 0,
+                    imageheight: imageEl ? getNumber(imageEl, "height") : 0,
+                    repeatx: getNumber(el, "repeatx") === 1,
+                    repeaty: getNumber(el, "repeaty") === 1
+                };
+            }
+            case "group":
+                return {
+                    ...base,
+                    type: "group",
+                    layers: parseLayers(el)
+                };
+            default:
+                return null;
+        }
+    };
+
+    const parseTilemap = (doc: Document): TilemapJSON => {
+        const mapEl = doc.documentElement;
+        if (mapEl.tagName !== "map") {
+            throw new Error("Expected <map> root element, got <" + mapEl.tagName + ">");
+        }
+
+        return {
+            width: getNumber(mapEl, "width"),
+            height: getNumber(mapEl, "height"),
+            tilewidth: getNumber(mapEl, "tilewidth"),
+            tileheight: getNumber(mapEl, "tileheight"),
+            orientation: getString(mapEl, "orientation", "orthogonal") as TilemapJSON["orientation"],
+            staggeraxis: getString(mapEl, "staggeraxis", "y") as TilemapJSON["staggeraxis"],
+            staggerindex: getString(mapEl, "staggerindex", "odd") as TilemapJSON["staggerindex"],
+            hexsidelength: getNumber(mapEl, "hexsidelength"),
+            infinite: getNumber(mapEl, "infinite") === 1,
+            parallaxoriginx: getNumber(mapEl, "parallaxoriginx"),
+            parallaxoriginy: getNumber(mapEl, "parallaxoriginy"),
+            tilesets: getChildren(mapEl, "tileset").map(parseTilesetReference),
+            layers: parseLayers(mapEl),
+            properties: parseProperties(mapEl)
+        };
+    };
+
+    const parseTileset = (doc: Document): TilesetJSON => {
+        const tilesetEl = doc.documentElement;
+        if (tilesetEl.tagName !== "tileset") {
+            throw new Error("Expected <tileset> root element, got <" + tilesetEl.tagName + ">");
+        }
+
+        return parseTilesetElement(tilesetEl);
+    };
+
+    const parseTemplate = (doc: Document): TemplateJSON => {
+        const templateEl = doc.documentElement;
+        if (templateEl.tagName !== "template") {
+            throw new Error("Expected <template> root element, got <" + templateEl.tagName + ">");
+        }
+
+        const objectEl = getChild(templateEl, "object");
+        if (!objectEl) {
+            throw new Error("Template is missing an <object> element");
+        }
+
+        const tilesetEl = getChild(templateEl, "tileset");
+        return {
+            type: "template",
+            tileset: tilesetEl ? parseTilesetReference(tilesetEl) : undefined,
+            object: parseObject(objectEl)
+        };
+    };
+
+    return {
+        isXml,
+        parseTemplate,
+        parseTilemap,
+        parseTileset
+    };
+})();
@@ -2,12 +2,15 @@ import { Camera } from "../Camera";
 import { Color } from "../Color";
 import { overlaps } from "../common";
 import { geometry } from "../geometry";
+import { imageUtils } from "../imageUtils";
 import { math } from "../math";
 import { BlendMode, defaultPassStage, DYNAMIC_LAYER_MAX_SPRITES, getOffscreenTextureSizeFactor, LAYER_LIFETIME, maskClearColor, MAX_CHANNELS, MAX_LIGHTS, OFFSCREEN_TEXTURES, Renderer, RendererBuilderOptions, RendererType, RenderPassStage, SHADOW_MAX_VERTICES, STATIC_LAYER_MAX_SPRITES, TEXID_LIGHTMAP, TEXID_MASK, TEXID_SCENE, TextureInfo } from "../Renderer";
 import { Scene, SceneLayer } from "../Scene";
 import { blurHorizontalBuilder, blurVerticalBuilder, defaultShaderBuilder, lightShaderBuilder, ShaderBuilder, ShaderBuilderOutput } from "../ShaderBuilder";
 import { Sprite } from "../Sprite";
-import { Tileset } from "../Tileset";
+import { TilemapQuad } from "../TilemapQuad";
+import { TileRect, Tileset } from "../Tileset";
+import { Vector } from "../Vector";
 import { Framebuffer } from "./Framebuffer";
 import { ShaderProgram } from "./ShaderProgram";
 
@@ -19,6 +22,42 @@ vec4 worldToClip(vec2 worldPos, vec2 cameraPos, vec2 viewport) {
 }
 `;
 
+// Plays the tile animations of the tileset's animation table, tiles without an animation are returned unchanged
+const animateTileFunction = `
+uniform highp sampler2D uAnimations;
+uniform vec2 uAnimationsSize;
+uniform float uTime;
+
+vec4 animationTexel(float index) {
+    float row = floor((index + 0.5) / uAnimationsSize.x);
+    vec2 texel = vec2(index - row * uAnimationsSize.x, row);
+    return floor(texture2D(uAnimations, (texel + 0.5) / uAnimationsSize) * 255.0 + 0.5);
+}
+
+float animateTile(float id) {
+    if (id * 2.0 + 1.0 >= uAnimationsSize.x * uAnimationsSize.y) return id;
+
+    vec4 animation = animationTexel(id * 2.0);
+    if (animation.a < 0.5) return id;
+
+    float start = dot(animation.rgb, vec3(1.0, 256.0, 65536.0));
+    float total = dot(animationTexel(id * 2.0 + 1.0), vec4(1.0, 256.0, 65536.0, 16777216.0));
+    float time = total > 0.0 ? mod(uTime, total) : 0.0;
+
+    for (int i = 0; i < 255; ++i) {
+        if (float(i) >= animation.a - 1.0) break;
+
+        vec4 frame = animationTexel(start + float(i));
+        float duration = frame.b + frame.a * 256.0;
+        if (time < duration) return frame.r + frame.g * 256.0;
+        time -= duration;
+    }
+
+    vec4 frame = animationTexel(start + animation.a - 1.0);
+    return frame.r + frame.g * 256.0;
+}
+`;
+
 const mainVertex = `
 
 attribute vec2 aVertexPos;
@@ -30,11 +69,15 @@ attribute vec4 aTileRegion;
 attribute vec4 aTintColor;
 attribute vec4 aMaskColor;
 attribute vec2 aTileOffset;
+attribute vec4 aTileFlip;
 
 uniform vec2 uViewportDimensions;
 uniform vec2 uCameraPos;
 
 uniform vec2 uTilesetDimensions;
+uniform vec4 uTilesetGrid;
+uniform float uTilesetColumns;
+uniform vec4 uLayerTint;
 
 varying vec2 uv;
 varying vec4 tintColor;
@@ -42,12 +85,29 @@ varying vec4 maskColor;
 
 ${worldToClipVertex}
 
+#ifdef TILE_ANIMATIONS
+${animateTileFunction}
+#endif
+
 void main() {
-    tintColor = aTintColor;
-    maskColor = aMaskColor;
+    tintColor = aTintColor * uLayerTint;
+    maskColor = vec4(aMaskColor.rgb, aMaskColor.a * uLayerTint.a);
 
     vec2 flippedTexCoord = vec2(aTexCoord.x, 1.0 - aTexCoord.y);
-    uv = (vec2(aTileRegion.xy) + flippedTexCoord * vec2(aTileRegion.zw)) / uTilesetDimensions;
+    flippedTexCoord = mix(flippedTexCoord, 1.0 - flippedTexCoord, aTileFlip.xy);
+    flippedTexCoord = mix(flippedTexCoord, flippedTexCoord.yx, aTileFlip.z);
+
+    vec2 region = aTileRegion.xy;
+#ifdef TILE_ANIMATIONS
+    if (aTileFlip.w > 0.5) {
+        vec2 step = uTilesetGrid.xy + uTilesetGrid.ww;
+        vec2 tile = floor((region - uTilesetGrid.zz) / step + 0.5);
+        float id = animateTile(tile.y * uTilesetColumns + tile.x);
+        float row = floor((id + 0.5) / uTilesetColumns);
+        region = uTilesetGrid.zz + vec2(id - row * uTilesetColumns, row) * step;
+    }
+#endif
+    uv = (region + flippedTexCoord * aTileRegion.zw) / uTilesetDimensions;
 
     float c = cos(aTileAngle);
     float s = sin(aTileAngle);
@@ -91,6 +151,87 @@ void main() {
 }
 `;
 
+const tilemapVertex = `
+
+attribute vec2 aVertexPos;
+
+uniform vec2 uViewportDimensions;
+uniform vec2 uCameraPos;
+
+uniform vec2 uQuadPos;
+uniform vec2 uQuadSize;
+uniform vec2 uGridSize;
+
+varying vec2 cellPos;
+
+${worldToClipVertex}
+
+void main() {
+    cellPos = aVertexPos * uGridSize;
+
+    gl_Position = worldToClip(uQuadPos + aVertexPos * uQuadSize, uCameraPos, uViewportDimensions);
+}
+`;
+
+// Looks up the tile of the fragment's cell in the tile data texture and returns its position in the tileset
+const tilemapLookupFragment = `
+
+precision highp float;
+
+varying vec2 cellPos;
+
+uniform sampler2D uSampler;
+uniform highp sampler2D uTileData;
+
+uniform vec2 uGridSize;
+uniform vec2 uTilesetDimensions;
+uniform vec4 uTilesetGrid;
+uniform float uTilesetColumns;
+
+uniform vec4 uLayerTint;
+uniform vec4 uTintColor;
+uniform vec4 uMaskColor;
+
+${animateTileFunction}
+
+vec2 tilemapUV() {
+    vec2 cell = floor(cellPos);
+    vec4 data = floor(texture2D(uTileData, (cell + 0.5) / uGridSize) * 255.0 + 0.5);
+    float id = data.r + data.g * 256.0 + data.b * 65536.0 - 1.0;
+    if (id < 0.0) discard;
+
+    id = animateTile(id);
+
+    float row = floor((id + 0.5) / uTilesetColumns);
+    vec2 tile = vec2(id - row * uTilesetColumns, row);
+
+    vec3 flip = mod(floor(data.a / vec3(1.0, 2.0, 4.0)), 2.0);
+    vec2 texCoord = fract(cellPos);
+    texCoord = mix(texCoord, 1.0 - texCoord, flip.xy);
+    texCoord = mix(texCoord, texCoord.yx, flip.z);
+
+    vec2 pixel = clamp(texCoord * uTilesetGrid.xy, vec2(0.5), uTilesetGrid.xy - 0.5);
+    return (uTilesetGrid.zz + tile * (uTilesetGrid.xy + uTilesetGrid.ww) + pixel) / uTilesetDimensions;
+}
+`;
+
+const tilemapFragment = `
+${tilemapLookupFragment}
+
+void main() {
+    gl_FragColor = texture2D(uSampler, tilemapUV()) * uTintColor * uLayerTint;
+}
+`;
+
+const tilemapMaskFragment = `
+${tilemapLookupFragment}
+
+void main() {
+    vec4 texColor = texture2D(uSampler, tilemapUV());
+    gl_FragColor = vec4(uMaskColor.rgb, texColor.a * uMaskColor.a * uLayerTint.a);
+}
+`;
+
 const lightVertex = `
 precision mediump float;
 
@@ -220,6 +361,8 @@ export class WebglRenderer implements Renderer {
     private gl!: WebGLRenderingContext;
     private shaderProgram!: ShaderProgram;
     private maskShaderProgram!: ShaderProgram;
+    private tilemapShaderProgram: ShaderProgram | null;
+    private tilemapMaskShaderProgram: ShaderProgram | null;
     private lightShaderProgram!: ShaderProgram;
     private shadowShaderProgram!: ShaderProgram;
     private fullscreenVbo!: WebGLBuffer;
@@ -235,7 +378,10 @@ export class WebglRenderer implements Renderer {
     private shadowsVbo!: WebGLBuffer;
     private shaderCache: Map<ShaderBuilder, ShaderProgram>;
     private time: number;
+    private startTime: number;
+    private animationTime: number;
     private resizeRequested: boolean;
+    private tileDataTextures: boolean;
 
     constructor(canvas: HTMLCanvasElement) {
         this.canvas = canvas;
@@ -248,23 +394,39 @@ export class WebglRenderer implements Renderer {
         this.framebuffers = [];
         this.shaderCache = new Map();
         this.time = 0;
+        this.startTime = 0;
+        this.animationTime = 0;
         this.resizeRequested = false;
+        this.tilemapShaderProgram = null;
+        this.tilemapMaskShaderProgram = null;
+
+        // Animation tables are read in the vertex shader and tile data needs highp in the fragment shader, both optional in WebGL.
+        // Checked before init, so that scenes can be created with the result of isTileDataTexturesSupported
+        const gl = canvas.getContext("webgl");
+        this.tileDataTextures = !!gl &&
+            gl.getParameter(gl.MAX_VERTEX_TEXTURE_IMAGE_UNITS) > 0 &&
+            (gl.getShaderPrecisionFormat(gl.FRAGMENT_SHADER, gl.HIGH_FLOAT)?.precision || 0) > 0;
     }
 
     public getType(): RendererType {
         return "webgl";
     }
 
+    public isTileDataTexturesSupported(): boolean {
+        return this.tileDataTextures;
+    }
+
     public getBuilderOptions(): RendererBuilderOptions {
         return builderOptions;
     }
 
     public addTextures(tilesets: Tileset[], images: Record<string, TexImageSource>): void {
         for (const tileset of tilesets) {
-            if (images[tileset.name]) {
+            const image = tileset.isCollection() ? imageUtils.createTilesetAtlas(tileset, images) : images[tileset.name];
+            if (image) {
                 this.texturesMap.set(tileset.name, {
                     tileset,
-                    image: images[tileset.name]
+                    image
                 });
             }
         }
@@ -323,6 +485,9 @@ export class WebglRenderer implements Renderer {
         for (const texInfo of this.texturesMap.values()) {
             if (texInfo.tileset) {
                 texInfo.texture = this.createTexture(texInfo.image);
+                if (this.tileDataTextures) {
+                    texInfo.animationTable = this.createAnimationTable(texInfo.tileset);
+                }
             }
         }
 
@@ -341,8 +506,13 @@ export class WebglRenderer implements Renderer {
             shaderInfo.shader = this.shaderCache.get(shaderInfo.builder)!;
         }
 
-        this.shaderProgram = new ShaderProgram(gl, mainVertex, mainFragment);
-        this.maskShaderProgram = new ShaderProgram(gl, mainVertex, maskFragment);
+        const spriteVertex = (this.tileDataTextures ? "#define TILE_ANIMATIONS\n" : "") + mainVertex;
+        this.shaderProgram = new ShaderProgram(gl, spriteVertex, mainFragment);
+        this.maskShaderProgram = new ShaderProgram(gl, spriteVertex, maskFragment);
+        if (this.tileDataTextures) {
+            this.tilemapShaderProgram = new ShaderProgram(gl, tilemapVertex, tilemapFragment);
+            this.tilemapMaskShaderProgram = new ShaderProgram(gl, tilemapVertex, tilemapMaskFragment);
+        }
         this.lightShaderProgram = new ShaderProgram(gl, lightVertex, lightFragment);
         this.shadowShaderProgram = new ShaderProgram(gl, shadowVertex, shadowFragment);
 
@@ -375,10 +545,11 @@ export class WebglRenderer implements Renderer {
         gl.bindBuffer(gl.ARRAY_BUFFER, this.shadowsVbo);
         gl.bufferData(gl.ARRAY_BUFFER, MAX_LIGHTS * SHADOW_MAX_VERTICES * 8, gl.DYNAMIC_DRAW);
 
+        this.startTime = performance.now();
         this.initialized = true;
     }
 
-    private renderScene(framebuffer: Framebuffer, shaderProgram: ShaderProgram, camera: Camera, clearColor: Color | null, layers: WebglRendererLayer[]) {
+    private renderScene(framebuffer: Framebuffer, shaderProgram: ShaderProgram, tilemapShaderProgram: ShaderProgram | null, camera: Camera, clearColor: Color | null, layers: WebglRendererLayer[]) {
         framebuffer.bind();
 
         this.blend("alpha");
@@ -390,13 +561,18 @@ export class WebglRenderer implements Renderer {
 
         this.gl.activeTexture(this.gl.TEXTURE0);
 
+        if (tilemapShaderProgram) {
+            tilemapShaderProgram.use();
+
+            this.gl.uniform2f(tilemapShaderProgram.getUniform("uViewportDimensions"), camera.vw, camera.vh);
+        }
+
         shaderProgram.use();
 
         this.gl.uniform2f(shaderProgram.getUniform("uViewportDimensions"), camera.vw, camera.vh);
-        this.gl.uniform2f(shaderProgram.getUniform("uCameraPos"), camera.position.x, camera.position.y);
 
         for (let layer of layers) {
-            layer.render(shaderProgram);
+            layer.render(shaderProgram, tilemapShaderProgram);
         }
 
         framebuffer.unbind();
@@ -586,37 +762,47 @@ export class WebglRenderer implements Renderer {
             this.resizeRequested = false;
         }
 
-        const cameraBounds = camera.getBounds();
         this.time = performance.now() * 0.001;
+        this.animationTime = Math.floor(performance.now() - this.startTime);
 
         const layers: WebglRendererLayer[] = [];
         for (const sceneLayer of scene.getLayersOrdered()) {
+            if (!sceneLayer.visible) continue;
+
             let layer: WebglRendererLayer;
             if (!this.layersMap.has(sceneLayer)) {
                 this.layersMap.set(sceneLayer, new WebglRendererLayer(this.gl, this, sceneLayer.isStatic));
             }
             layer = this.layersMap.get(sceneLayer)!;
+            const changes = sceneLayer.takeChanges();
+            if (changes.rebuild || (!layer.needsUpdate && !layer.updateSprites(changes.sprites))) {
+                layer.needsUpdate = true;
+            }
             if (layer.needsUpdate) {
                 let sprites = sceneLayer.getSpritesOrdered();
                 if (!layer.isStatic) {
+                    const cameraBounds = sceneLayer.getCameraBounds(camera);
                     sprites = sprites.filter(sprite => overlaps(cameraBounds, sprite.getBounds()))
                 }
-                layer.uploadSprites(sceneLayer.getSpritesOrdered());
+                layer.uploadSprites(sprites);
             }
+            layer.updateQuads(sceneLayer.quads);
+            layer.cameraPosition.copy(sceneLayer.getCameraPosition(camera));
+            layer.tint.copy(sceneLayer.getTint());
             layers.push(layer);
         }
 
-        this.renderScene(this.framebuffers[0], this.shaderProgram, camera, this.clearColor, layers);
+        this.renderScene(this.framebuffers[0], this.shaderProgram, this.tilemapShaderProgram, camera, this.clearColor, layers);
 
         this.renderFullscreenPass({ shader: "default", inputs: [0], output: -1 });
 
         this.renderLights(scene, camera);
 
-        this.renderScene(this.framebuffers[TEXID_SCENE], this.shaderProgram, camera, this.clearColor, layers);
+        this.renderScene(this.framebuffers[TEXID_SCENE], this.shaderProgram, this.tilemapShaderProgram, camera, this.clearColor, layers);
 
         this.renderFullscreenPass({ shader: "light", inputs: [TEXID_SCENE, TEXID_LIGHTMAP], output: 0 });
 
-        this.renderScene(this.framebuffers[TEXID_MASK], this.maskShaderProgram, camera, maskClearColor, layers);
+        this.renderScene(this.framebuffers[TEXID_MASK], this.maskShaderProgram, this.tilemapMaskShaderProgram, camera, maskClearColor, layers);
 
         for (let i = 0; i < this.pass.length; ++i) {
             const passStage = this.pass[i];
@@ -631,6 +817,10 @@ export class WebglRenderer implements Renderer {
         }
     }
 
+    public getAnimationTime(period: number) {
+        return this.animationTime % period;
+    }
+
     public getTextureInfo(name: string) {
         const texInfo = this.texturesMap.get(name);
         if (!texInfo) throw new Error("Texture not found: " + name);
@@ -662,6 +852,46 @@ export class WebglRenderer implements Renderer {
         return texture;
     }
 
+    public createAnimationTable(tileset: Tileset) {
+        const gl = this.gl;
+        const table = geometry.createAnimationTable(tileset);
+
+        const texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, table.width, table.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, table.data);
+
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
+        return { texture, width: table.width, height: table.height, period: table.period };
+    }
+
+    public createTilemapTexture(quad: TilemapQuad) {
+        const gl = this.gl;
+
+        const texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, quad.width, quad.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, quad.data);
+
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
+        return texture;
+    }
+
+    public updateTilemapTexture(texture: WebGLTexture, quad: TilemapQuad, rect: TileRect) {
+        const gl = this.gl;
+
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, rect.x, rect.y, rect.width, rect.height, gl.RGBA, gl.UNSIGNED_BYTE, quad.getRegionData(rect));
+    }
+
 }
 
 interface DrawCall {
@@ -676,16 +906,28 @@ class WebglRendererLayer {
     private spriteBuffer: WebGLBuffer;
     isStatic: boolean;
     drawCalls: DrawCall[];
+    private spriteIndices: Map<Sprite, number>;
+    private spriteTilesets: string[];
+    private quads: TilemapQuad[];
+    private quadTextures: Map<TilemapQuad, WebGLTexture>;
     needsUpdate: boolean;
     lifetime: number;
+    cameraPosition: Vector;
+    tint: Color;
 
     constructor(gl: WebGLRenderingContext, renderer: WebglRenderer, isStatic: boolean) {
         this.gl = gl;
         this.renderer = renderer;
         this.isStatic = isStatic;
         this.needsUpdate = true;
+        this.spriteIndices = new Map();
+        this.spriteTilesets = [];
+        this.quads = [];
+        this.quadTextures = new Map();
         this.drawCalls = [];
         this.lifetime = LAYER_LIFETIME;
+        this.cameraPosition = new Vector();
+        this.tint = new Color(1, 1, 1, 1);
 
         this.spriteBuffer = gl.createBuffer();
         gl.bindBuffer(gl.ARRAY_BUFFER, this.spriteBuffer);
@@ -700,6 +942,8 @@ class WebglRendererLayer {
 
         if (this.isStatic) {
             this.needsUpdate = false;
+            this.spriteIndices = new Map(sprites.map((sprite, i) => [sprite, i]));
+            this.spriteTilesets = sprites.map(sprite => sprite.tileset.name);
         }
 
         this.drawCalls.length = 0;
@@ -718,9 +962,102 @@ class WebglRendererLayer {
         }
     }
 
-    public render(shaderProgram: ShaderProgram) {
+    public updateSprites(sprites: Sprite[]) {
+        if (!sprites.length) return true;
+
+        // Sprites that changed tileset would break the draw calls
+        for (const sprite of sprites) {
+            const index = this.spriteIndices.get(sprite);
+            if (index !== undefined && this.spriteTilesets[index] !== sprite.tileset.name) return false;
+        }
+
+        const gl = this.gl;
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.spriteBuffer);
+        for (const range of geometry.getSpriteRanges(sprites, this.spriteIndices)) {
+            gl.bufferSubData(gl.ARRAY_BUFFER, range.start * geometry.spriteStride * 4, geometry.createSpritesData(range.sprites, false));
+        }
+        return true;
+    }
+
+    public updateQuads(quads: TilemapQuad[]) {
+        for (const [quad, texture] of this.quadTextures) {
+            if (!quads.includes(quad)) {
+                this.gl.deleteTexture(texture);
+                this.quadTextures.delete(quad);
+            }
+        }
+
+        for (const quad of quads) {
+            const texture = this.quadTextures.get(quad);
+            const changes = quad.takeChanges();
+            if (!texture) {
+                this.quadTextures.set(quad, this.renderer.createTilemapTexture(quad));
+            } else if (changes) {
+                this.renderer.updateTilemapTexture(texture, quad, changes);
+            }
+        }
+
+        this.quads = quads;
+    }
+
+    private renderQuads(shaderProgram: ShaderProgram) {
         const gl = this.gl;
 
+        shaderProgram.use();
+
+        gl.uniform2f(shaderProgram.getUniform("uCameraPos"), this.cameraPosition.x, this.cameraPosition.y);
+        gl.uniform4f(shaderProgram.getUniform("uLayerTint"), this.tint.r, this.tint.g, this.tint.b, this.tint.a);
+        gl.uniform1i(shaderProgram.getUniform("uSampler"), 0);
+        gl.uniform1i(shaderProgram.getUniform("uTileData"), 1);
+        gl.uniform1i(shaderProgram.getUniform("uAnimations"), 2);
+
+        const vertexPos = shaderProgram.getAttrib("aVertexPos");
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.renderer.getVBO());
+        gl.enableVertexAttribArray(vertexPos);
+        gl.vertexAttribPointer(vertexPos, 2, gl.FLOAT, false, 16, 0);
+
+        for (const quad of this.quads) {
+            const texInfo = this.renderer.getTextureInfo(quad.tileset.name);
+            const tileset = texInfo.tileset;
+
+            gl.activeTexture(gl.TEXTURE2);
+            gl.bindTexture(gl.TEXTURE_2D, texInfo.animationTable!.texture);
+            gl.activeTexture(gl.TEXTURE1);
+            gl.bindTexture(gl.TEXTURE_2D, this.quadTextures.get(quad)!);
+            gl.activeTexture(gl.TEXTURE0);
+            gl.bindTexture(gl.TEXTURE_2D, texInfo.texture!);
+
+            gl.uniform2f(shaderProgram.getUniform("uQuadPos"), quad.position.x, quad.position.y);
+            gl.uniform2f(shaderProgram.getUniform("uQuadSize"), quad.width * quad.tileSize.x, quad.height * quad.tileSize.y);
+            gl.uniform2f(shaderProgram.getUniform("uGridSize"), quad.width, quad.height);
+            gl.uniform2f(shaderProgram.getUniform("uTilesetDimensions"), tileset.imageWidth, tileset.imageHeight);
+            gl.uniform4f(shaderProgram.getUniform("uTilesetGrid"), tileset.tileWidth, tileset.tileHeight, tileset.margin, tileset.spacing);
+            gl.uniform1f(shaderProgram.getUniform("uTilesetColumns"), tileset.columns);
+            gl.uniform2f(shaderProgram.getUniform("uAnimationsSize"), texInfo.animationTable!.width, texInfo.animationTable!.height);
+            gl.uniform1f(shaderProgram.getUniform("uTime"), this.renderer.getAnimationTime(texInfo.animationTable!.period));
+            gl.uniform4f(shaderProgram.getUniform("uTintColor"), quad.tintColor.r, quad.tintColor.g, quad.tintColor.b, quad.tintColor.a);
+            gl.uniform4f(shaderProgram.getUniform("uMaskColor"), quad.maskColor.r, quad.maskColor.g, quad.maskColor.b, quad.maskColor.a);
+
+            gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        }
+
+        gl.disableVertexAttribArray(vertexPos);
+    }
+
+    public render(shaderProgram: ShaderProgram, tilemapShaderProgram: ShaderProgram | null) {
+        const gl = this.gl;
+
+        if (this.quads.length && tilemapShaderProgram) {
+            this.renderQuads(tilemapShaderProgram);
+            shaderProgram.use();
+        }
+
+        gl.uniform2f(shaderProgram.getUniform("uCameraPos"), this.cameraPosition.x, this.cameraPosition.y);
+        gl.uniform4f(shaderProgram.getUniform("uLayerTint"), this.tint.r, this.tint.g, this.tint.b, this.tint.a);
+        gl.uniform1i(shaderProgram.getUniform("uAnimations"), 2);
+
         gl.bindBuffer(gl.ARRAY_BUFFER, this.renderer.getVBO());
 
         const attribLocations = {
@@ -733,6 +1070,7 @@ class WebglRendererLayer {
             tintColor: shaderProgram.getAttrib("aTintColor"),
             maskColor: shaderProgram.getAttrib("aMaskColor"),
             tileOffset: shaderProgram.getAttrib("aTileOffset"),
+            tileFlip: shaderProgram.getAttrib("aTileFlip"),
         };
 
         gl.enableVertexAttribArray(attribLocations.vertexPos);
@@ -758,14 +1096,27 @@ class WebglRendererLayer {
         gl.vertexAttribPointer(attribLocations.maskColor, 4, gl.FLOAT, false, stride, 44);
         gl.enableVertexAttribArray(attribLocations.tileOffset);
         gl.vertexAttribPointer(attribLocations.tileOffset, 2, gl.FLOAT, false, stride, 60);
+        gl.enableVertexAttribArray(attribLocations.tileFlip);
+        gl.vertexAttribPointer(attribLocations.tileFlip, 4, gl.UNSIGNED_BYTE, false, stride, 68);
 
         gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.renderer.getEBO());
 
         for (const drawCall of this.drawCalls) {
             const texInfo = this.renderer.getTextureInfo(drawCall.texName);
+            const tileset = texInfo.tileset;
+            if (texInfo.animationTable) {
+                gl.activeTexture(gl.TEXTURE2);
+                gl.bindTexture(gl.TEXTURE_2D, texInfo.animationTable.texture);
+                gl.activeTexture(gl.TEXTURE0);
+
+                this.gl.uniform4f(shaderProgram.getUniform("uTilesetGrid"), tileset.tileWidth, tileset.tileHeight, tileset.margin, tileset.spacing);
+                this.gl.uniform1f(shaderProgram.getUniform("uTilesetColumns"), tileset.columns);
+                this.gl.uniform2f(shaderProgram.getUniform("uAnimationsSize"), texInfo.animationTable.width, texInfo.animationTable.height);
+                this.gl.uniform1f(shaderProgram.getUniform("uTime"), this.renderer.getAnimationTime(texInfo.animationTable.period));
+            }
             gl.bindTexture(gl.TEXTURE_2D, texInfo.texture!);
 
-            this.gl.uniform2f(shaderProgram.getUniform("uTilesetDimensions"), texInfo.tileset.imageWidth, texInfo.tileset.imageHeight);
+            this.gl.uniform2f(shaderProgram.getUniform("uTilesetDimensions"), tileset.imageWidth, tileset.imageHeight);
 
             gl.drawElements(gl.TRIANGLES, 6 * drawCall.spriteCount, gl.UNSIGNED_SHORT, drawCall.spriteOffset * 6 * 2);
         }
@@ -780,11 +1131,16 @@ class WebglRendererLayer {
         gl.disableVertexAttribArray(attribLocations.tileRegion);
         gl.disableVertexAttribArray(attribLocations.tintColor);
         gl.disableVertexAttribArray(attribLocations.maskColor);
+        gl.disableVertexAttribArray(attribLocations.tileOffset);
+        gl.disableVertexAttribArray(attribLocations.tileFlip);
 
         this.lifetime = LAYER_LIFETIME;
     }
 
     public destroy() {
         this.gl.deleteBuffer(this.spriteBuffer);
+        for (const texture of this.quadTextures.values()) {
+            this.gl.deleteTexture(texture);
+        }
     }
 }
\ No newline at end of file
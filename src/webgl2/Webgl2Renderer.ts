@@ -2,12 +2,15 @@ import { Camera } from "../Camera";
 import { Color } from "../Color";
 import { overlaps } from "../common";
 import { geometry } from "../geometry";
+import { imageUtils } from "../imageUtils";
 import { math } from "../math";
 import { BlendMode, defaultPassStage, DYNAMIC_LAYER_MAX_SPRITES, getOffscreenTextureSizeFactor, LAYER_LIFETIME, maskClearColor, MAX_CHANNELS, MAX_LIGHTS, OFFSCREEN_TEXTURES, Renderer, RendererBuilderOptions, RendererType, RenderPassStage, SHADOW_MAX_VERTICES, STATIC_LAYER_MAX_SPRITES, TEXID_LIGHTMAP, TEXID_MASK, TEXID_SCENE, TextureInfo } from "../Renderer";
 import { Scene, SceneLayer } from "../Scene";
 import { ShaderBuilderOutput, defaultShaderBuilder, ShaderBuilder, lightShaderBuilder, blurHorizontalBuilder, blurVerticalBuilder } from "../ShaderBuilder";
 import { Sprite } from "../Sprite";
-import { Tileset } from "../Tileset";
+import { TilemapQuad } from "../TilemapQuad";
+import { TileRect, Tileset } from "../Tileset";
+import { Vector } from "../Vector";
 import { Framebuffer } from "../webgl/Framebuffer";
 import { ShaderProgram } from "../webgl/ShaderProgram";
 
@@ -19,6 +22,40 @@ vec4 worldToClip(vec2 worldPos, vec2 cameraPos, vec2 viewport) {
 }
 `;
 
+// Plays the tile animations of the tileset's animation table, tiles without an animation are returned unchanged
+const animateTileFunction = `
+uniform highp usampler2D uAnimations;
+uniform float uTime;
+
+uvec4 animationTexel(uint index) {
+    uint width = uint(textureSize(uAnimations, 0).x);
+    return texelFetch(uAnimations, ivec2(index % width, index / width), 0);
+}
+
+uint animateTile(uint id) {
+    ivec2 size = textureSize(uAnimations, 0);
+    if (id * 2u + 1u >= uint(size.x * size.y)) return id;
+
+    uvec4 animation = animationTexel(id * 2u);
+    if (animation.a == 0u) return id;
+
+    uint start = animation.r | (animation.g << 8) | (animation.b << 16);
+    uvec4 total = animationTexel(id * 2u + 1u);
+    uint totalDuration = total.r | (total.g << 8) | (total.b << 16) | (total.a << 24);
+    uint time = totalDuration > 0u ? uint(uTime) % totalDuration : 0u;
+
+    for (uint i = 0u; i < animation.a - 1u; ++i) {
+        uvec4 frame = animationTexel(start + i);
+        uint duration = frame.b | (frame.a << 8);
+        if (time < duration) return frame.r | (frame.g << 8);
+        time -= duration;
+    }
+
+    uvec4 frame = animationTexel(start + animation.a - 1u);
+    return frame.r | (frame.g << 8);
+}
+`;
+
 const mainVertex = `#version 300 es
 
 layout(location = 0) in vec2 aVertexPos;
@@ -33,11 +70,15 @@ layout(location = 6) in vec4 aTintColor;
 layout(location = 7) in vec4 aMaskColor;
 
 layout(location = 8) in vec2 aTileOffset;
+layout(location = 9) in vec4 aTileFlip;
 
 uniform vec2 uViewportDimensions;
 uniform vec2 uCameraPos;
 
 uniform vec2 uTilesetDimensions;
+uniform vec4 uTilesetGrid;
+uniform uint uTilesetColumns;
+uniform vec4 uLayerTint;
 
 out vec2 uv;
 out vec4 tintColor;
@@ -45,12 +86,24 @@ out vec4 maskColor;
 
 ${worldToClipVertex}
 
+${animateTileFunction}
+
 void main() {
-    tintColor = aTintColor;
-    maskColor = aMaskColor;
+    tintColor = aTintColor * uLayerTint;
+    maskColor = vec4(aMaskColor.rgb, aMaskColor.a * uLayerTint.a);
 
     vec2 flippedTexCoord = vec2(aTexCoord.x, 1.0 - aTexCoord.y);
-    uv = (vec2(aTileRegion.xy) + flippedTexCoord * vec2(aTileRegion.zw)) / uTilesetDimensions;
+    flippedTexCoord = mix(flippedTexCoord, 1.0 - flippedTexCoord, aTileFlip.xy);
+    flippedTexCoord = mix(flippedTexCoord, flippedTexCoord.yx, aTileFlip.z);
+
+    vec2 region = vec2(aTileRegion.xy);
+    if (aTileFlip.w > 0.5) {
+        vec2 step = uTilesetGrid.xy + uTilesetGrid.ww;
+        uvec2 tile = uvec2((region - uTilesetGrid.zz) / step + 0.5);
+        uint id = animateTile(tile.y * uTilesetColumns + tile.x);
+        region = uTilesetGrid.zz + vec2(float(id % uTilesetColumns), float(id / uTilesetColumns)) * step;
+    }
+    uv = (region + flippedTexCoord * vec2(aTileRegion.zw)) / uTilesetDimensions;
 
     float c = cos(aTileAngle);
     float s = sin(aTileAngle);
@@ -98,6 +151,89 @@ void main() {
 }
 `;
 
+const tilemapVertex = `#version 300 es
+
+layout(location = 0) in vec2 aVertexPos;
+
+uniform vec2 uViewportDimensions;
+uniform vec2 uCameraPos;
+
+uniform vec2 uQuadPos;
+uniform vec2 uQuadSize;
+uniform vec2 uGridSize;
+
+out vec2 cellPos;
+
+${worldToClipVertex}
+
+void main() {
+    cellPos = aVertexPos * uGridSize;
+
+    gl_Position = worldToClip(uQuadPos + aVertexPos * uQuadSize, uCameraPos, uViewportDimensions);
+}
+`;
+
+// Looks up the tile of the fragment's cell in the tile data texture and returns its position in the tileset
+const tilemapLookupFragment = `
+precision highp float;
+precision highp int;
+precision highp usampler2D;
+
+in vec2 cellPos;
+
+uniform mediump sampler2D uSampler;
+uniform usampler2D uTileData;
+
+uniform vec2 uTilesetDimensions;
+uniform vec4 uTilesetGrid;
+uniform uint uTilesetColumns;
+
+uniform vec4 uLayerTint;
+uniform vec4 uTintColor;
+uniform vec4 uMaskColor;
+
+${animateTileFunction}
+
+vec2 tilemapUV() {
+    ivec2 cell = min(ivec2(cellPos), textureSize(uTileData, 0) - 1);
+    uvec4 data = texelFetch(uTileData, cell, 0);
+    uint value = data.r | (data.g << 8) | (data.b << 16);
+    if (value == 0u) discard;
+
+    uint id = animateTile(value - 1u);
+    vec2 tile = vec2(float(id % uTilesetColumns), float(id / uTilesetColumns));
+
+    vec3 flip = vec3((uvec3(data.a) >> uvec3(0u, 1u, 2u)) & 1u);
+    vec2 texCoord = fract(cellPos);
+    texCoord = mix(texCoord, 1.0 - texCoord, flip.xy);
+    texCoord = mix(texCoord, texCoord.yx, flip.z);
+
+    vec2 pixel = clamp(texCoord * uTilesetGrid.xy, vec2(0.5), uTilesetGrid.xy - 0.5);
+    return (uTilesetGrid.zz + tile * (uTilesetGrid.xy + uTilesetGrid.ww) + pixel) / uTilesetDimensions;
+}
+`;
+
+const tilemapFragment = `#version 300 es
+${tilemapLookupFragment}
+
+out vec4 fragColor;
+
+void main() {
+    fragColor = texture(uSampler, tilemapUV()) * uTintColor * uLayerTint;
+}
+`;
+
+const tilemapMaskFragment = `#version 300 es
+${tilemapLookupFragment}
+
+out vec4 fragColor;
+
+void main() {
+    vec4 texColor = texture(uSampler, tilemapUV());
+    fragColor = vec4(uMaskColor.rgb, texColor.a * uMaskColor.a * uLayerTint.a);
+}
+`;
+
 const lightVertex = `#version 300 es
 precision mediump float;
 
@@ -236,6 +372,8 @@ export class Webgl2Renderer implements Renderer {
     private gl!: WebGL2RenderingContext;
     private shaderProgram!: ShaderProgram;
     private maskShaderProgram!: ShaderProgram;
+    private tilemapShaderProgram!: ShaderProgram;
+    private tilemapMaskShaderProgram!: ShaderProgram;
     private lightShaderProgram!: ShaderProgram;
     private shadowShaderProgram!: ShaderProgram;
     private framebuffers: Framebuffer[];
@@ -247,7 +385,10 @@ export class Webgl2Renderer implements Renderer {
     private initialized: boolean;
     public pass: RenderPassStage[];
     private time: number;
+    private startTime: number;
+    private animationTime: number;
     private lightVao!: WebGLVertexArrayObject;
+    private tilemapVao!: WebGLVertexArrayObject;
     private shadowsVao!: WebGLVertexArrayObject;
     private shadowsVbo!: WebGLBuffer;
     private shaderCache: Map<ShaderBuilder, ShaderProgram>;
@@ -263,6 +404,8 @@ export class Webgl2Renderer implements Renderer {
         this.pass = [defaultPassStage];
         this.framebuffers = [];
         this.time = 0;
+        this.startTime = 0;
+        this.animationTime = 0;
         this.shaderCache = new Map();
         this.resizeRequested = false;
     }
@@ -271,16 +414,21 @@ export class Webgl2Renderer implements Renderer {
         return "webgl2";
     }
 
+    public isTileDataTexturesSupported(): boolean {
+        return true;
+    }
+
     public getBuilderOptions(): RendererBuilderOptions {
         return builderOptions;
     }
 
     public addTextures(tilesets: Tileset[], images: Record<string, TexImageSource>): void {
         for (const tileset of tilesets) {
-            if (images[tileset.name]) {
+            const image = tileset.isCollection() ? imageUtils.createTilesetAtlas(tileset, images) : images[tileset.name];
+            if (image) {
                 this.texturesMap.set(tileset.name, {
                     tileset,
-                    image: images[tileset.name]
+                    image
                 });
             }
         }
@@ -339,6 +487,7 @@ export class Webgl2Renderer implements Renderer {
         for (const texInfo of this.texturesMap.values()) {
             if (texInfo.tileset) {
                 texInfo.texture = this.createTexture(texInfo.image);
+                texInfo.animationTable = this.createAnimationTable(texInfo.tileset);
             }
         }
 
@@ -361,6 +510,8 @@ export class Webgl2Renderer implements Renderer {
 
         this.shaderProgram = new ShaderProgram(gl, mainVertex, mainFragment);
         this.maskShaderProgram = new ShaderProgram(gl, mainVertex, maskFragment);
+        this.tilemapShaderProgram = new ShaderProgram(gl, tilemapVertex, tilemapFragment);
+        this.tilemapMaskShaderProgram = new ShaderProgram(gl, tilemapVertex, tilemapMaskFragment);
         this.lightShaderProgram = new ShaderProgram(gl, lightVertex, lightFragment);
         this.shadowShaderProgram = new ShaderProgram(gl, shadowVertex, shadowFragment);
 
@@ -377,6 +528,15 @@ export class Webgl2Renderer implements Renderer {
 
         gl.bindVertexArray(null);
 
+        this.tilemapVao = gl.createVertexArray();
+        gl.bindVertexArray(this.tilemapVao);
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vbo);
+        gl.enableVertexAttribArray(0);
+        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 16, 0);
+
+        gl.bindVertexArray(null);
+
         this.shadowsVbo = gl.createBuffer();
         gl.bindBuffer(gl.ARRAY_BUFFER, this.shadowsVbo);
         gl.bufferData(gl.ARRAY_BUFFER, MAX_LIGHTS * SHADOW_MAX_VERTICES * 8, gl.DYNAMIC_DRAW);
@@ -390,10 +550,11 @@ export class Webgl2Renderer implements Renderer {
 
         gl.bindVertexArray(null);
 
+        this.startTime = performance.now();
         this.initialized = true;
     }
 
-    private renderScene(framebuffer: Framebuffer, shaderProgram: ShaderProgram, camera: Camera, clearColor: Color | null, layers: WebglRendererLayer[]) {
+    private renderScene(framebuffer: Framebuffer, shaderProgram: ShaderProgram, tilemapShaderProgram: ShaderProgram, camera: Camera, clearColor: Color | null, layers: WebglRendererLayer[]) {
         framebuffer.bind();
 
         this.blend("alpha");
@@ -405,13 +566,16 @@ export class Webgl2Renderer implements Renderer {
 
         this.gl.activeTexture(this.gl.TEXTURE0);
 
+        tilemapShaderProgram.use();
+
+        this.gl.uniform2f(tilemapShaderProgram.getUniform("uViewportDimensions"), camera.vw, camera.vh);
+
         shaderProgram.use();
 
         this.gl.uniform2f(shaderProgram.getUniform("uViewportDimensions"), camera.vw, camera.vh);
-        this.gl.uniform2f(shaderProgram.getUniform("uCameraPos"), camera.position.x, camera.position.y);
 
         for (let layer of layers) {
-            layer.render(shaderProgram);
+            layer.render(shaderProgram, tilemapShaderProgram);
         }
 
         framebuffer.unbind();
@@ -581,33 +745,43 @@ export class Webgl2Renderer implements Renderer {
             this.resizeRequested = false;
         }
 
-        const cameraBounds = camera.getBounds();
         this.time = performance.now() * 0.001;
+        this.animationTime = Math.floor(performance.now() - this.startTime);
 
         const layers: WebglRendererLayer[] = [];
         for (const sceneLayer of scene.getLayersOrdered()) {
+            if (!sceneLayer.visible) continue;
+
             let layer: WebglRendererLayer;
             if (!this.layersMap.has(sceneLayer)) {
                 this.layersMap.set(sceneLayer, new WebglRendererLayer(this.gl, this, sceneLayer.isStatic));
             }
             layer = this.layersMap.get(sceneLayer)!;
+            const changes = sceneLayer.takeChanges();
+            if (changes.rebuild || (!layer.needsUpdate && !layer.updateSprites(changes.sprites))) {
+                layer.needsUpdate = true;
+            }
             if (layer.needsUpdate) {
                 let sprites = sceneLayer.getSpritesOrdered();
                 if(!layer.isStatic) {
+                    const cameraBounds = sceneLayer.getCameraBounds(camera);
                     sprites = sprites.filter(sprite => overlaps(cameraBounds, sprite.getBounds()))
                 }
-                layer.uploadSprites(sceneLayer.getSpritesOrdered());
+                layer.uploadSprites(sprites);
             }
+            layer.updateQuads(sceneLayer.quads);
+            layer.cameraPosition.copy(sceneLayer.getCameraPosition(camera));
+            layer.tint.copy(sceneLayer.getTint());
             layers.push(layer);
         }
 
         this.renderLights(scene, camera);
 
-        this.renderScene(this.framebuffers[TEXID_SCENE], this.shaderProgram, camera, this.clearColor, layers);
+        this.renderScene(this.framebuffers[TEXID_SCENE], this.shaderProgram, this.tilemapShaderProgram, camera, this.clearColor, layers);
 
         this.renderFullscreenPass({ shader: "light", inputs: [TEXID_SCENE, TEXID_LIGHTMAP], output: 0 });
 
-        this.renderScene(this.framebuffers[TEXID_MASK], this.maskShaderProgram, camera, maskClearColor, layers);
+        this.renderScene(this.framebuffers[TEXID_MASK], this.maskShaderProgram, this.tilemapMaskShaderProgram, camera, maskClearColor, layers);
 
         for (let i = 0; i < this.pass.length; ++i) {
             const passStage = this.pass[i];
@@ -622,6 +796,10 @@ export class Webgl2Renderer implements Renderer {
         }
     }
 
+    public getAnimationTime(period: number) {
+        return this.animationTime % period;
+    }
+
     public getTextureInfo(name: string) {
         const texInfo = this.texturesMap.get(name);
         if (!texInfo) throw new Error("Texture not found: " + name);
@@ -632,6 +810,10 @@ export class Webgl2Renderer implements Renderer {
         return this.vbo;
     }
 
+    public getTilemapVAO() {
+        return this.tilemapVao;
+    }
+
     public createTexture(imageData: TexImageSource) {
         const gl = this.gl;
 
@@ -647,6 +829,44 @@ export class Webgl2Renderer implements Renderer {
         return texture;
     }
 
+    public createAnimationTable(tileset: Tileset) {
+        const gl = this.gl;
+        const table = geometry.createAnimationTable(tileset);
+
+        const texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8UI, table.width, table.height, 0, gl.RGBA_INTEGER, gl.UNSIGNED_BYTE, table.data);
+
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
+        return { texture, width: table.width, height: table.height, period: table.period };
+    }
+
+    public createTilemapTexture(quad: TilemapQuad) {
+        const gl = this.gl;
+
+        const texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8UI, quad.width, quad.height, 0, gl.RGBA_INTEGER, gl.UNSIGNED_BYTE, quad.data);
+
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+
+        return texture;
+    }
+
+    public updateTilemapTexture(texture: WebGLTexture, quad: TilemapQuad, rect: TileRect) {
+        const gl = this.gl;
+
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, rect.x, rect.y, rect.width, rect.height, gl.RGBA_INTEGER, gl.UNSIGNED_BYTE, quad.getRegionData(rect));
+    }
+
     public createTextureArray(tileset: Tileset, imageData: Uint8Array) {
         const gl = this.gl;
 
@@ -695,16 +915,28 @@ class WebglRendererLayer {
     private vao: WebGLVertexArrayObject;
     isStatic: boolean;
     drawCalls: DrawCall[];
+    private spriteIndices: Map<Sprite, number>;
+    private spriteTilesets: string[];
+    private quads: TilemapQuad[];
+    private quadTextures: Map<TilemapQuad, WebGLTexture>;
     needsUpdate: boolean;
     lifetime: number;
+    cameraPosition: Vector;
+    tint: Color;
 
     constructor(gl: WebGL2RenderingContext, renderer: Webgl2Renderer, isStatic: boolean) {
         this.gl = gl;
         this.renderer = renderer;
         this.isStatic = isStatic;
         this.needsUpdate = true;
+        this.spriteIndices = new Map();
+        this.spriteTilesets = [];
+        this.quads = [];
+        this.quadTextures = new Map();
         this.drawCalls = [];
         this.lifetime = LAYER_LIFETIME;
+        this.cameraPosition = new Vector();
+        this.tint = new Color(1, 1, 1, 1);
 
         this.vao = gl.createVertexArray();
         gl.bindVertexArray(this.vao);
@@ -722,7 +954,7 @@ class WebglRendererLayer {
         const stride = geometry.spriteStride;
         gl.bufferData(gl.ARRAY_BUFFER, (this.isStatic ? STATIC_LAYER_MAX_SPRITES : DYNAMIC_LAYER_MAX_SPRITES) * stride, this.isStatic ? gl.STATIC_DRAW : gl.DYNAMIC_DRAW);
 
-        for (let i = 2; i <= 8; ++i) {
+        for (let i = 2; i <= 9; ++i) {
             gl.enableVertexAttribArray(i);
             gl.vertexAttribDivisor(i, 1);
         }
@@ -738,6 +970,8 @@ class WebglRendererLayer {
 
         if (this.isStatic) {
             this.needsUpdate = false;
+            this.spriteIndices = new Map(sprites.map((sprite, i) => [sprite, i]));
+            this.spriteTilesets = sprites.map(sprite => sprite.tileset.name);
         }
 
         this.drawCalls.length = 0;
@@ -756,17 +990,112 @@ class WebglRendererLayer {
         }
     }
 
-    public render(shaderProgram: ShaderProgram) {
+    public updateSprites(sprites: Sprite[]) {
+        if (!sprites.length) return true;
+
+        // Sprites that changed tileset would break the draw calls
+        for (const sprite of sprites) {
+            const index = this.spriteIndices.get(sprite);
+            if (index !== undefined && this.spriteTilesets[index] !== sprite.tileset.name) return false;
+        }
+
+        const gl = this.gl;
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+        for (const range of geometry.getSpriteRanges(sprites, this.spriteIndices)) {
+            gl.bufferSubData(gl.ARRAY_BUFFER, range.start * geometry.spriteStride, geometry.createSpritesData(range.sprites, true));
+        }
+        return true;
+    }
+
+    public updateQuads(quads: TilemapQuad[]) {
+        for (const [quad, texture] of this.quadTextures) {
+            if (!quads.includes(quad)) {
+                this.gl.deleteTexture(texture);
+                this.quadTextures.delete(quad);
+            }
+        }
+
+        for (const quad of quads) {
+            const texture = this.quadTextures.get(quad);
+            const changes = quad.takeChanges();
+            if (!texture) {
+                this.quadTextures.set(quad, this.renderer.createTilemapTexture(quad));
+            } else if (changes) {
+                this.renderer.updateTilemapTexture(texture, quad, changes);
+            }
+        }
+
+        this.quads = quads;
+    }
+
+    private renderQuads(shaderProgram: ShaderProgram) {
+        const gl = this.gl;
+
+        shaderProgram.use();
+
+        gl.uniform2f(shaderProgram.getUniform("uCameraPos"), this.cameraPosition.x, this.cameraPosition.y);
+        gl.uniform4f(shaderProgram.getUniform("uLayerTint"), this.tint.r, this.tint.g, this.tint.b, this.tint.a);
+        gl.uniform1i(shaderProgram.getUniform("uSampler"), 0);
+        gl.uniform1i(shaderProgram.getUniform("uTileData"), 1);
+        gl.uniform1i(shaderProgram.getUniform("uAnimations"), 2);
+
+        gl.bindVertexArray(this.renderer.getTilemapVAO());
+
+        for (const quad of this.quads) {
+            const texInfo = this.renderer.getTextureInfo(quad.tileset.name);
+            const tileset = texInfo.tileset;
+
+            gl.activeTexture(gl.TEXTURE2);
+            gl.bindTexture(gl.TEXTURE_2D, texInfo.animationTable!.texture);
+            gl.activeTexture(gl.TEXTURE1);
+            gl.bindTexture(gl.TEXTURE_2D, this.quadTextures.get(quad)!);
+            gl.activeTexture(gl.TEXTURE0);
+            gl.bindTexture(gl.TEXTURE_2D, texInfo.texture!);
+
+            gl.uniform2f(shaderProgram.getUniform("uQuadPos"), quad.position.x, quad.position.y);
+            gl.uniform2f(shaderProgram.getUniform("uQuadSize"), quad.width * quad.tileSize.x, quad.height * quad.tileSize.y);
+            gl.uniform2f(shaderProgram.getUniform("uGridSize"), quad.width, quad.height);
+            gl.uniform2f(shaderProgram.getUniform("uTilesetDimensions"), tileset.imageWidth, tileset.imageHeight);
+            gl.uniform4f(shaderProgram.getUniform("uTilesetGrid"), tileset.tileWidth, tileset.tileHeight, tileset.margin, tileset.spacing);
+            gl.uniform1ui(shaderProgram.getUniform("uTilesetColumns"), tileset.columns);
+            gl.uniform1f(shaderProgram.getUniform("uTime"), this.renderer.getAnimationTime(texInfo.animationTable!.period));
+            gl.uniform4f(shaderProgram.getUniform("uTintColor"), quad.tintColor.r, quad.tintColor.g, quad.tintColor.b, quad.tintColor.a);
+            gl.uniform4f(shaderProgram.getUniform("uMaskColor"), quad.maskColor.r, quad.maskColor.g, quad.maskColor.b, quad.maskColor.a);
+
+            gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        }
+
+        gl.bindVertexArray(null);
+    }
+
+    public render(shaderProgram: ShaderProgram, tilemapShaderProgram: ShaderProgram) {
         const gl = this.gl;
 
+        if (this.quads.length) {
+            this.renderQuads(tilemapShaderProgram);
+            shaderProgram.use();
+        }
+
+        gl.uniform2f(shaderProgram.getUniform("uCameraPos"), this.cameraPosition.x, this.cameraPosition.y);
+        gl.uniform4f(shaderProgram.getUniform("uLayerTint"), this.tint.r, this.tint.g, this.tint.b, this.tint.a);
+        gl.uniform1i(shaderProgram.getUniform("uAnimations"), 2);
+
         gl.bindVertexArray(this.vao);
 
         for (const drawCall of this.drawCalls) {
             const texInfo = this.renderer.getTextureInfo(drawCall.texName);
+            const tileset = texInfo.tileset;
 
+            gl.activeTexture(gl.TEXTURE2);
+            gl.bindTexture(gl.TEXTURE_2D, texInfo.animationTable!.texture);
+            gl.activeTexture(gl.TEXTURE0);
             gl.bindTexture(gl.TEXTURE_2D, texInfo.texture!);
 
-            this.gl.uniform2f(shaderProgram.getUniform("uTilesetDimensions"), texInfo.tileset.imageWidth, texInfo.tileset.imageHeight);
+            this.gl.uniform2f(shaderProgram.getUniform("uTilesetDimensions"), tileset.imageWidth, tileset.imageHeight);
+            this.gl.uniform4f(shaderProgram.getUniform("uTilesetGrid"), tileset.tileWidth, tileset.tileHeight, tileset.margin, tileset.spacing);
+            this.gl.uniform1ui(shaderProgram.getUniform("uTilesetColumns"), tileset.columns);
+            this.gl.uniform1f(shaderProgram.getUniform("uTime"), this.renderer.getAnimationTime(texInfo.animationTable!.period));
 
             gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
 
@@ -780,6 +1109,7 @@ class WebglRendererLayer {
             gl.vertexAttribPointer(6, 4, gl.FLOAT, false, stride, 28 + instanceByteOffset);
             gl.vertexAttribPointer(7, 4, gl.FLOAT, false, stride, 44 + instanceByteOffset);
             gl.vertexAttribPointer(8, 2, gl.FLOAT, false, stride, 60 + instanceByteOffset);
+            gl.vertexAttribPointer(9, 4, gl.UNSIGNED_BYTE, false, stride, 68 + instanceByteOffset);
 
             gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, drawCall.count);
         }
@@ -792,5 +1122,8 @@ class WebglRendererLayer {
     public destroy() {
         this.gl.deleteBuffer(this.instanceBuffer);
         this.gl.deleteVertexArray(this.vao);
+        for (const texture of this.quadTextures.values()) {
+            this.gl.deleteTexture(texture);
+        }
     }
 }
\ No newline at end of file
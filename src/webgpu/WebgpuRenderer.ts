@@ -2,12 +2,15 @@ import { Camera } from "../Camera";
 import { Color } from "../Color";
 import { overlaps } from "../common";
 import { geometry } from "../geometry";
+import { imageUtils } from "../imageUtils";
 import { math } from "../math";
 import { BlendMode, defaultPassStage, DYNAMIC_LAYER_MAX_SPRITES, getOffscreenTextureSizeFactor, LAYER_LIFETIME, LAYER_MAX_TEXTURES, maskClearColor, MAX_CHANNELS, MAX_LIGHTS, OFFSCREEN_TEXTURES, Renderer, RendererBuilderOptions, RendererType, RenderPassStage, SHADOW_MAX_VERTICES, STATIC_LAYER_MAX_SPRITES, TEXID_LIGHTMAP, TEXID_MASK, TEXID_SCENE, TextureInfo, UNIFORMS_MAX_SIZE } from "../Renderer";
 import { Scene, SceneLayer } from "../Scene";
 import { blurHorizontalBuilder, blurVerticalBuilder, defaultShaderBuilder, lightShaderBuilder, ShaderBuilder, ShaderBuilderOutput } from "../ShaderBuilder";
 import { Sprite } from "../Sprite";
-import { Tileset } from "../Tileset";
+import { TilemapQuad } from "../TilemapQuad";
+import { TileRect, Tileset } from "../Tileset";
+import { Vector } from "../Vector";
 
 interface GPUConfig {
     device: GPUDevice;
@@ -36,6 +39,46 @@ fn worldToClip(worldPos: vec2f, cameraPos: vec2f, viewport: vec2f) -> vec4f {
 }
 `;
 
+// Plays the tile animations of the tileset's animation table, tiles without an animation are returned unchanged
+const animateTileFunction = `
+fn animationTexel(index: u32) -> vec4u {
+    let width = textureDimensions(animations).x;
+    return textureLoad(animations, vec2u(index % width, index / width), 0);
+}
+
+fn animateTile(id: u32, time: f32) -> u32 {
+    let size = textureDimensions(animations);
+    if (id * 2u + 1u >= size.x * size.y) {
+        return id;
+    }
+
+    let animation = animationTexel(id * 2u);
+    if (animation.a == 0u) {
+        return id;
+    }
+
+    let start = animation.r | (animation.g << 8u) | (animation.b << 16u);
+    let total = animationTexel(id * 2u + 1u);
+    let totalDuration = total.r | (total.g << 8u) | (total.b << 16u) | (total.a << 24u);
+    var t = 0u;
+    if (totalDuration > 0u) {
+        t = u32(time) % totalDuration;
+    }
+
+    for (var i = 0u; i < animation.a - 1u; i++) {
+        let frame = animationTexel(start + i);
+        let duration = frame.b | (frame.a << 8u);
+        if (t < duration) {
+            return frame.r | (frame.g << 8u);
+        }
+        t -= duration;
+    }
+
+    let frame = animationTexel(start + animation.a - 1u);
+    return frame.r | (frame.g << 8u);
+}
+`;
+
 const mainVertex = `
 struct VSInput {
     @location(0) vertexPos: vec2f,
@@ -49,7 +92,8 @@ struct VSInput {
     @location(6) tintColor: vec4f,
     @location(7) maskColor: vec4f,
 
-    @location(8) tileOffset: vec2f
+    @location(8) tileOffset: vec2f,
+    @location(9) tileFlip: vec4u
 }
 
 struct Camera {
@@ -57,11 +101,26 @@ struct Camera {
     viewportDimensions: vec2f
 }
 
+struct Tileset {
+    dimensions: vec2f,
+    tileSize: vec2f,
+    margin: f32,
+    spacing: f32,
+    columns: u32,
+    time: f32
+}
+
 @group(0) @binding(0)
 var<uniform> camera: Camera;
 
 @group(1) @binding(2)
-var<uniform> tilesetDimensions: vec2f;
+var<uniform> tileset: Tileset;
+
+@group(1) @binding(3)
+var animations: texture_2d<u32>;
+
+@group(2) @binding(0)
+var<uniform> layerTint: vec4f;
 
 struct VSOutput {
     @builtin(position) pos: vec4f,
@@ -72,22 +131,34 @@ struct VSOutput {
 
 ${worldToClipVertex}
 
+${animateTileFunction}
+
 @vertex
 fn vs_main(input: VSInput) -> VSOutput {
     var out: VSOutput;
 
-    out.tintColor = input.tintColor;
-    out.maskColor = input.maskColor;
+    out.tintColor = input.tintColor * layerTint;
+    out.maskColor = vec4f(input.maskColor.rgb, input.maskColor.a * layerTint.a);
 
     let x = f32(input.tileRegion.x & 0xFFFFu);
     let y = f32(input.tileRegion.x >> 16);
     let w = f32(input.tileRegion.y & 0xFFFFu);
     let h = f32(input.tileRegion.y >> 16);
 
-    let tileRegion = vec4f(x, y, w, h);
+    let tileFlip = vec4f(input.tileFlip);
+
+    var region = vec2f(x, y);
+    if (tileFlip.w > 0.5) {
+        let step = tileset.tileSize + tileset.spacing;
+        let tile = vec2u((region - tileset.margin) / step + 0.5);
+        let id = animateTile(tile.y * tileset.columns + tile.x, tileset.time);
+        region = tileset.margin + vec2f(f32(id % tileset.columns), f32(id / tileset.columns)) * step;
+    }
 
-    let flippedTexCoord = vec2f(input.texCoord.x, 1.0 - input.texCoord.y);
-    out.uv = (tileRegion.xy + flippedTexCoord * tileRegion.zw) / tilesetDimensions;
+    var flippedTexCoord = vec2f(input.texCoord.x, 1.0 - input.texCoord.y);
+    flippedTexCoord = mix(flippedTexCoord, 1.0 - flippedTexCoord, tileFlip.xy);
+    flippedTexCoord = mix(flippedTexCoord, flippedTexCoord.yx, tileFlip.z);
+    out.uv = (region + flippedTexCoord * vec2f(w, h)) / tileset.dimensions;
 
     let c = cos(input.tileAngle);
     let s = sin(input.tileAngle);
@@ -133,6 +204,110 @@ fn fs_main(input: VSOutput) -> @location(0) vec4f {
 const mainSource = mainVertex + mainFragment;
 const maskSource = mainVertex + maskFragment;
 
+const tilemapVertex = `
+struct TilemapQuad {
+    position: vec2f,
+    size: vec2f,
+    gridSize: vec2f,
+    tilesetDimensions: vec2f,
+    tileSize: vec2f,
+    margin: f32,
+    spacing: f32,
+    tintColor: vec4f,
+    maskColor: vec4f,
+    columns: u32,
+    time: f32
+}
+
+struct Camera {
+    pos: vec2f,
+    viewportDimensions: vec2f
+}
+
+@group(0) @binding(0)
+var<uniform> camera: Camera;
+
+@group(1) @binding(0)
+var tilesetSampler: sampler;
+
+@group(1) @binding(1)
+var tilesetTexture: texture_2d<f32>;
+
+@group(1) @binding(2)
+var tileData: texture_2d<u32>;
+
+@group(1) @binding(3)
+var<uniform> quad: TilemapQuad;
+
+@group(1) @binding(4)
+var animations: texture_2d<u32>;
+
+@group(2) @binding(0)
+var<uniform> layerTint: vec4f;
+
+struct VSOutput {
+    @builtin(position) pos: vec4f,
+    @location(0) cellPos: vec2f,
+    @location(1) tintColor: vec4f,
+    @location(2) maskColor: vec4f
+}
+
+${worldToClipVertex}
+
+${animateTileFunction}
+
+@vertex
+fn vs_main(@location(0) vertexPos: vec2f) -> VSOutput {
+    var out: VSOutput;
+
+    out.tintColor = quad.tintColor * layerTint;
+    out.maskColor = vec4f(quad.maskColor.rgb, quad.maskColor.a * layerTint.a);
+    out.cellPos = vertexPos * quad.gridSize;
+
+    out.pos = worldToClip(quad.position + vertexPos * quad.size, camera.pos, camera.viewportDimensions);
+    return out;
+}
+
+// Looks up the tile of the fragment's cell in the tile data texture and returns its position in the tileset
+fn tilemapUV(cellPos: vec2f) -> vec2f {
+    let cell = min(vec2u(cellPos), textureDimensions(tileData) - 1u);
+    let data = textureLoad(tileData, cell, 0);
+    let value = data.r | (data.g << 8u) | (data.b << 16u);
+    if (value == 0u) {
+        discard;
+    }
+
+    let id = animateTile(value - 1u, quad.time);
+    let tile = vec2f(f32(id % quad.columns), f32(id / quad.columns));
+
+    let flip = vec3f((vec3u(data.a) >> vec3u(0u, 1u, 2u)) & vec3u(1u));
+    var texCoord = fract(cellPos);
+    texCoord = mix(texCoord, 1.0 - texCoord, flip.xy);
+    texCoord = mix(texCoord, texCoord.yx, flip.z);
+
+    let pixel = clamp(texCoord * quad.tileSize, vec2f(0.5), quad.tileSize - 0.5);
+    return (vec2f(quad.margin) + tile * (quad.tileSize + quad.spacing) + pixel) / quad.tilesetDimensions;
+}
+`;
+
+const tilemapFragment = `
+@fragment
+fn fs_main(input: VSOutput) -> @location(0) vec4f {
+    return textureSampleLevel(tilesetTexture, tilesetSampler, tilemapUV(input.cellPos), 0.0) * input.tintColor;
+}
+`;
+
+const tilemapMaskFragment = `
+@fragment
+fn fs_main(input: VSOutput) -> @location(0) vec4f {
+    let texColor = textureSampleLevel(tilesetTexture, tilesetSampler, tilemapUV(input.cellPos), 0.0);
+    return vec4f(input.maskColor.xyz, texColor.w * input.maskColor.a);
+}
+`;
+
+const tilemapSource = tilemapVertex + tilemapFragment;
+const tilemapMaskSource = tilemapVertex + tilemapMaskFragment;
+
 const lightSource = `
 struct VSInput {
     @location(0) pos: vec2f
@@ -340,10 +515,16 @@ export class WebgpuRenderer implements Renderer {
     private initialized: boolean;
     public pass: RenderPassStage[];
     private maskPipeline!: GPURenderPipeline;
+    private tilemapPipeline!: GPURenderPipeline;
+    private tilemapMaskPipeline!: GPURenderPipeline;
+    private tilemapBGL!: GPUBindGroupLayout;
     private commonBGL!: GPUBindGroupLayout;
     private cameraBGL!: GPUBindGroupLayout;
+    private layerBGL!: GPUBindGroupLayout;
     private lightBGL!: GPUBindGroupLayout;
     private time: number;
+    private startTime: number;
+    private animationTime: number;
     private lightPipeline!: GPURenderPipeline;
     private shadowPipeline!: GPURenderPipeline;
     private lightUniformBindGroup!: GPUBindGroup;
@@ -369,6 +550,8 @@ export class WebgpuRenderer implements Renderer {
         this.pass = [defaultPassStage];
         this.offscreenTextures = [];
         this.time = 0;
+        this.startTime = 0;
+        this.animationTime = 0;
         this.shaderCache = new Map();
         this.renderPassUniformMap = new Map();
         this.fullscreenPassStages = {
@@ -384,16 +567,21 @@ export class WebgpuRenderer implements Renderer {
         return "webgpu";
     }
 
+    public isTileDataTexturesSupported(): boolean {
+        return true;
+    }
+
     public getBuilderOptions(): RendererBuilderOptions {
         return builderOptions;
     }
 
     public addTextures(tilesets: Tileset[], images: Record<string, TexImageSource>): void {
         for (const tileset of tilesets) {
-            if (images[tileset.name]) {
+            const image = tileset.isCollection() ? imageUtils.createTilesetAtlas(tileset, images) : images[tileset.name];
+            if (image) {
                 this.texturesMap.set(tileset.name, {
                     tileset,
-                    image: images[tileset.name]
+                    image
                 });
             }
         }
@@ -483,6 +671,7 @@ export class WebgpuRenderer implements Renderer {
         for (const texInfo of this.texturesMap.values()) {
             if (texInfo.tileset) {
                 texInfo.texture = this.createTexture(texInfo.tileset, texInfo.image);
+                texInfo.animationTable = this.createAnimationTable(texInfo.tileset);
             }
         }
 
@@ -545,7 +734,8 @@ export class WebgpuRenderer implements Renderer {
             entries: [
                 { binding: 0, visibility: GPUShaderStage.FRAGMENT, sampler: {} },
                 { binding: 1, visibility: GPUShaderStage.FRAGMENT, texture: {} },
-                { binding: 2, visibility: GPUShaderStage.VERTEX, buffer: { type: "uniform" } }
+                { binding: 2, visibility: GPUShaderStage.VERTEX, buffer: { type: "uniform" } },
+                { binding: 3, visibility: GPUShaderStage.VERTEX, texture: { sampleType: "uint" } }
             ]
         });
         this.cameraBGL = this.cfg.device.createBindGroupLayout({
@@ -553,6 +743,20 @@ export class WebgpuRenderer implements Renderer {
                 { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: "uniform" } }
             ]
         });
+        this.layerBGL = this.cfg.device.createBindGroupLayout({
+            entries: [
+                { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: "uniform" } }
+            ]
+        });
+        this.tilemapBGL = this.cfg.device.createBindGroupLayout({
+            entries: [
+                { binding: 0, visibility: GPUShaderStage.FRAGMENT, sampler: {} },
+                { binding: 1, visibility: GPUShaderStage.FRAGMENT, texture: {} },
+                { binding: 2, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: "uint" } },
+                { binding: 3, visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT, buffer: { type: "uniform" } },
+                { binding: 4, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: "uint" } }
+            ]
+        });
         this.lightBGL = this.cfg.device.createBindGroupLayout({
             entries: [
                 { binding: 0, visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT, buffer: { type: "uniform", hasDynamicOffset: true } }
@@ -561,6 +765,8 @@ export class WebgpuRenderer implements Renderer {
 
         this.pipeline = this.createMainPipeline(mainSource);
         this.maskPipeline = this.createMainPipeline(maskSource);
+        this.tilemapPipeline = this.createTilemapPipeline(tilemapSource);
+        this.tilemapMaskPipeline = this.createTilemapPipeline(tilemapMaskSource);
 
         this.lightUniformBuffer = this.cfg.device.createBuffer({
             label: "Light uniform buffer",
@@ -654,6 +860,7 @@ export class WebgpuRenderer implements Renderer {
             usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST
         });
 
+        this.startTime = performance.now();
         this.initialized = true;
     }
 
@@ -663,7 +870,7 @@ export class WebgpuRenderer implements Renderer {
         });
 
         const pipelineLayout = this.cfg.device.createPipelineLayout({
-            bindGroupLayouts: [this.cameraBGL, this.commonBGL]
+            bindGroupLayouts: [this.cameraBGL, this.commonBGL, this.layerBGL]
         });
 
         return this.cfg.device.createRenderPipeline({
@@ -690,7 +897,8 @@ export class WebgpuRenderer implements Renderer {
                             { shaderLocation: 5, offset: 20, format: "uint32x2" },
                             { shaderLocation: 6, offset: 28, format: "float32x4" },
                             { shaderLocation: 7, offset: 44, format: "float32x4" },
-                            { shaderLocation: 8, offset: 60, format: "float32x2" }
+                            { shaderLocation: 8, offset: 60, format: "float32x2" },
+                            { shaderLocation: 9, offset: 68, format: "uint8x4" }
                         ]
                     }
                 ]
@@ -709,7 +917,45 @@ export class WebgpuRenderer implements Renderer {
         });
     }
 
-    private renderScene(encoder: GPUCommandEncoder, pipeline: GPURenderPipeline, writeTexture: GPUTexture, clearColor: Color | null, layers: WebgpuRendererLayer[]) {
+    private createTilemapPipeline(shaderSource: string) {
+        const shaderModule = this.cfg.device.createShaderModule({
+            code: shaderSource
+        });
+
+        const pipelineLayout = this.cfg.device.createPipelineLayout({
+            bindGroupLayouts: [this.cameraBGL, this.tilemapBGL, this.layerBGL]
+        });
+
+        return this.cfg.device.createRenderPipeline({
+            layout: pipelineLayout,
+            vertex: {
+                module: shaderModule,
+                entryPoint: "vs_main",
+                buffers: [
+                    {
+                        arrayStride: 16,
+                        stepMode: "vertex",
+                        attributes: [
+                            { shaderLocation: 0, offset: 0, format: "float32x2" }
+                        ]
+                    }
+                ]
+            },
+            fragment: {
+                module: shaderModule,
+                entryPoint: "fs_main",
+                targets: [
+                    {
+                        format: this.cfg.format,
+                        blend: this.getBlendOptions("alpha")
+                    }
+                ],
+            },
+            primitive: { topology: "triangle-strip" }
+        });
+    }
+
+    private renderScene(encoder: GPUCommandEncoder, pipeline: GPURenderPipeline, tilemapPipeline: GPURenderPipeline, writeTexture: GPUTexture, clearColor: Color | null, layers: WebgpuRendererLayer[]) {
         const scenePass = encoder.beginRenderPass({
             colorAttachments: [{
                 clearValue: clearColor || undefined,
@@ -723,7 +969,7 @@ export class WebgpuRenderer implements Renderer {
         scenePass.setVertexBuffer(0, this.vbo);
 
         for (const layer of layers) {
-            layer.render(scenePass);
+            layer.render(scenePass, pipeline, tilemapPipeline);
         }
 
         scenePass.end();
@@ -899,23 +1145,34 @@ export class WebgpuRenderer implements Renderer {
             this.resizeRequested = false;
         }
 
-        const cameraBounds = camera.getBounds();
         this.time = performance.now() * 0.001;
+        this.animationTime = Math.floor(performance.now() - this.startTime);
 
         const layers: WebgpuRendererLayer[] = [];
         for (const sceneLayer of scene.getLayersOrdered()) {
+            if (!sceneLayer.visible) continue;
+
             if (!this.layersMap.has(sceneLayer)) {
                 const layer = new WebgpuRendererLayer(this, sceneLayer.isStatic);
                 this.layersMap.set(sceneLayer, layer);
             }
             const layer = this.layersMap.get(sceneLayer)!;
+            const changes = sceneLayer.takeChanges();
+            if (changes.rebuild || (!layer.needsUpdate && !layer.updateSprites(changes.sprites))) {
+                layer.needsUpdate = true;
+            }
             if (layer.needsUpdate) {
                 let sprites = sceneLayer.getSpritesOrdered();
                 if (!layer.isStatic) {
+                    const cameraBounds = sceneLayer.getCameraBounds(camera);
                     sprites = sprites.filter(sprite => overlaps(cameraBounds, sprite.getBounds()))
                 }
                 layer.uploadSprites(sprites);
             }
+            layer.updateQuads(sceneLayer.quads);
+            layer.updateCamera(sceneLayer.getCameraPosition(camera), camera);
+            layer.updateAnimationTime();
+            layer.updateTint(sceneLayer.getTint());
             layers.push(layer);
         }
 
@@ -932,11 +1189,11 @@ export class WebgpuRenderer implements Renderer {
 
         this.renderLights(encoder, scene, camera);
 
-        this.renderScene(encoder, this.pipeline, this.offscreenTextures[TEXID_SCENE], this.clearColor, layers);
+        this.renderScene(encoder, this.pipeline, this.tilemapPipeline, this.offscreenTextures[TEXID_SCENE], this.clearColor, layers);
 
         this.renderFullscreenPass(encoder, this.fullscreenPassStages.mainLight);
 
-        this.renderScene(encoder, this.maskPipeline, this.offscreenTextures[TEXID_MASK], maskClearColor, layers);
+        this.renderScene(encoder, this.maskPipeline, this.tilemapMaskPipeline, this.offscreenTextures[TEXID_MASK], maskClearColor, layers);
 
         for (let i = 0; i < this.pass.length; ++i) {
             const passStage = this.pass[i];
@@ -977,6 +1234,71 @@ export class WebgpuRenderer implements Renderer {
         return texture;
     }
 
+    createAnimationTable(tileset: Tileset) {
+        const table = geometry.createAnimationTable(tileset);
+
+        const texture = this.cfg.device.createTexture({
+            size: {
+                width: table.width,
+                height: table.height,
+                depthOrArrayLayers: 1
+            },
+            format: "rgba8uint",
+            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST
+        });
+
+        this.cfg.device.queue.writeTexture(
+            { texture },
+            table.data,
+            {
+                bytesPerRow: table.width * 4,
+                rowsPerImage: table.height
+            },
+            {
+                width: table.width,
+                height: table.height,
+                depthOrArrayLayers: 1
+            }
+        );
+
+        return { texture, width: table.width, height: table.height, period: table.period };
+    }
+
+    createTilemapTexture(quad: TilemapQuad) {
+        const texture = this.cfg.device.createTexture({
+            size: {
+                width: quad.width,
+                height: quad.height,
+                depthOrArrayLayers: 1
+            },
+            format: "rgba8uint",
+            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST
+        });
+
+        this.updateTilemapTexture(texture, quad, { x: 0, y: 0, width: quad.width, height: quad.height });
+
+        return texture;
+    }
+
+    updateTilemapTexture(texture: GPUTexture, quad: TilemapQuad, rect: TileRect) {
+        this.cfg.device.queue.writeTexture(
+            {
+                texture,
+                origin: { x: rect.x, y: rect.y, z: 0 }
+            },
+            quad.getRegionData(rect),
+            {
+                bytesPerRow: rect.width * 4,
+                rowsPerImage: rect.height
+            },
+            {
+                width: rect.width,
+                height: rect.height,
+                depthOrArrayLayers: 1
+            }
+        );
+    }
+
     createTextureArray(tileset: Tileset, imageData: Uint8Array) {
         const tileW = tileset.tileWidth, tileH = tileset.tileHeight;
 
@@ -1026,6 +1348,10 @@ export class WebgpuRenderer implements Renderer {
         return this.cfg;
     }
 
+    public getAnimationTime(period: number) {
+        return this.animationTime % period;
+    }
+
     public getTextureInfo(name: string) {
         const texInfo = this.texturesMap.get(name);
         if (!texInfo) throw new Error("Texture not found: " + name);
@@ -1039,6 +1365,18 @@ export class WebgpuRenderer implements Renderer {
     public getSampler() {
         return this.sampler;
     }
+
+    public getCameraBGL() {
+        return this.cameraBGL;
+    }
+
+    public getLayerBGL() {
+        return this.layerBGL;
+    }
+
+    public getTilemapBGL() {
+        return this.tilemapBGL;
+    }
 }
 
 interface DrawCall {
@@ -1047,23 +1385,43 @@ interface DrawCall {
     instanceOffset: number;
 }
 
+interface QuadResources {
+    texture: GPUTexture;
+    uniformBuffer: GPUBuffer;
+    bindGroup: GPUBindGroup;
+}
+
 class WebgpuRendererLayer {
     isStatic: boolean;
     needsUpdate: boolean;
     drawCalls: DrawCall[];
+    private spriteIndices: Map<Sprite, number>;
+    private spriteTilesets: string[];
+    private quads: TilemapQuad[];
+    private quadResources: Map<TilemapQuad, QuadResources>;
     bindGroups: Map<string, GPUBindGroup>;
+    private tilesetOffsets: Map<string, number>;
     lastTexIdx: number;
     private renderer: WebgpuRenderer;
     private instanceBuffer: GPUBuffer;
     private tilesetDimBuffer: GPUBuffer;
+    private cameraBuffer: GPUBuffer;
+    private cameraBindGroup: GPUBindGroup;
+    private tintBuffer: GPUBuffer;
+    private tintBindGroup: GPUBindGroup;
     lifetime: number;
 
     constructor(renderer: WebgpuRenderer, isStatic: boolean) {
         this.renderer = renderer;
         this.isStatic = isStatic;
         this.needsUpdate = true;
+        this.spriteIndices = new Map();
+        this.spriteTilesets = [];
+        this.quads = [];
+        this.quadResources = new Map();
         this.drawCalls = [];
         this.bindGroups = new Map();
+        this.tilesetOffsets = new Map();
         this.lifetime = LAYER_LIFETIME;
         this.lastTexIdx = 0;
 
@@ -1078,6 +1436,73 @@ class WebgpuRendererLayer {
             size: LAYER_MAX_TEXTURES * 256,
             usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
         });
+
+        this.cameraBuffer = renderer.getConfig().device.createBuffer({
+            label: "Layer Camera Buffer",
+            size: 16,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+        });
+
+        this.cameraBindGroup = renderer.getConfig().device.createBindGroup({
+            label: "Layer camera bind group",
+            layout: renderer.getCameraBGL(),
+            entries: [{
+                binding: 0, resource: { buffer: this.cameraBuffer }
+            }]
+        });
+
+        this.tintBuffer = renderer.getConfig().device.createBuffer({
+            label: "Layer Tint Buffer",
+            size: 16,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+        });
+
+        this.tintBindGroup = renderer.getConfig().device.createBindGroup({
+            label: "Layer tint bind group",
+            layout: renderer.getLayerBGL(),
+            entries: [{
+                binding: 0, resource: { buffer: this.tintBuffer }
+            }]
+        });
+    }
+
+    public updateCamera(position: Vector, camera: Camera) {
+        this.renderer.getConfig().device.queue.writeBuffer(
+            this.cameraBuffer,
+            0,
+            new Float32Array([
+                position.x, position.y,
+                camera.vw, camera.vh
+            ])
+        );
+    }
+
+    public updateAnimationTime() {
+        const device = this.renderer.getConfig().device;
+        for (const [texName, offset] of this.tilesetOffsets) {
+            const period = this.renderer.getTextureInfo(texName).animationTable!.period;
+            device.queue.writeBuffer(this.tilesetDimBuffer, offset + 28, new Float32Array([this.renderer.getAnimationTime(period)]));
+        }
+    }
+
+    public updateTint(tint: Color) {
+        this.renderer.getConfig().device.queue.writeBuffer(this.tintBuffer, 0, tint.toArray());
+    }
+
+    public updateSprites(sprites: Sprite[]) {
+        if (!sprites.length) return true;
+
+        // Sprites that changed tileset would break the draw calls
+        for (const sprite of sprites) {
+            const index = this.spriteIndices.get(sprite);
+            if (index !== undefined && this.spriteTilesets[index] !== sprite.tileset.name) return false;
+        }
+
+        const device = this.renderer.getConfig().device;
+        for (const range of geometry.getSpriteRanges(sprites, this.spriteIndices)) {
+            device.queue.writeBuffer(this.instanceBuffer, range.start * geometry.spriteStride, geometry.createSpritesData(range.sprites, true));
+        }
+        return true;
     }
 
     public uploadSprites(sprites: Sprite[]) {
@@ -1089,6 +1514,8 @@ class WebgpuRendererLayer {
 
         if (this.isStatic) {
             this.needsUpdate = false;
+            this.spriteIndices = new Map(sprites.map((sprite, i) => [sprite, i]));
+            this.spriteTilesets = sprites.map(sprite => sprite.tileset.name);
         }
 
         this.drawCalls.length = 0;
@@ -1100,12 +1527,16 @@ class WebgpuRendererLayer {
 
             if (!currentCall || texName !== currentCall.texName) {
                 const texInfo = this.renderer.getTextureInfo(texName);
+                const tileset = texInfo.tileset;
 
-                device.queue.writeBuffer(
-                    this.tilesetDimBuffer,
-                    this.lastTexIdx * 256,
-                    new Float32Array([texInfo.tileset.imageWidth, texInfo.tileset.imageHeight])
-                );
+                const tilesetData = new Float32Array(8);
+                tilesetData.set([
+                    tileset.imageWidth, tileset.imageHeight,
+                    tileset.tileWidth, tileset.tileHeight,
+                    tileset.margin, tileset.spacing
+                ]);
+                new Uint32Array(tilesetData.buffer)[6] = tileset.columns;
+                device.queue.writeBuffer(this.tilesetDimBuffer, this.lastTexIdx * 256, tilesetData);
 
                 const bindGroup = device.createBindGroup({
                     layout: pipeline.getBindGroupLayout(1),
@@ -1117,9 +1548,10 @@ class WebgpuRendererLayer {
                             resource: {
                                 buffer: this.tilesetDimBuffer,
                                 offset: this.lastTexIdx * 256,
-                                size: 8
+                                size: 32
                             }
-                        }
+                        },
+                        { binding: 3, resource: (texInfo.animationTable!.texture as GPUTexture).createView() }
                     ],
                 });
 
@@ -1130,6 +1562,7 @@ class WebgpuRendererLayer {
                 };
                 if (!this.bindGroups.has(currentCall.texName)) {
                     this.bindGroups.set(currentCall.texName, bindGroup);
+                    this.tilesetOffsets.set(currentCall.texName, this.lastTexIdx * 256);
                     ++this.lastTexIdx;
                 }
                 this.drawCalls.push(currentCall);
@@ -1139,7 +1572,87 @@ class WebgpuRendererLayer {
         }
     }
 
-    public render(pass: GPURenderPassEncoder) {
+    private createQuadResources(quad: TilemapQuad): QuadResources {
+        const device = this.renderer.getConfig().device;
+        const texInfo = this.renderer.getTextureInfo(quad.tileset.name);
+
+        const texture = this.renderer.createTilemapTexture(quad);
+
+        const uniformBuffer = device.createBuffer({
+            label: "Tilemap Quad Buffer",
+            size: 96,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST
+        });
+
+        const bindGroup = device.createBindGroup({
+            label: "Tilemap quad bind group",
+            layout: this.renderer.getTilemapBGL(),
+            entries: [
+                { binding: 0, resource: this.renderer.getSampler() },
+                { binding: 1, resource: (texInfo.texture as GPUTexture).createView() },
+                { binding: 2, resource: texture.createView() },
+                { binding: 3, resource: { buffer: uniformBuffer } },
+                { binding: 4, resource: (texInfo.animationTable!.texture as GPUTexture).createView() }
+            ]
+        });
+
+        return { texture, uniformBuffer, bindGroup };
+    }
+
+    public updateQuads(quads: TilemapQuad[]) {
+        const device = this.renderer.getConfig().device;
+
+        for (const [quad, resources] of this.quadResources) {
+            if (!quads.includes(quad)) {
+                resources.texture.destroy();
+                resources.uniformBuffer.destroy();
+                this.quadResources.delete(quad);
+            }
+        }
+
+        for (const quad of quads) {
+            let resources = this.quadResources.get(quad);
+            const changes = quad.takeChanges();
+            if (!resources) {
+                resources = this.createQuadResources(quad);
+                this.quadResources.set(quad, resources);
+            } else if (changes) {
+                this.renderer.updateTilemapTexture(resources.texture, quad, changes);
+            }
+
+            const tileset = quad.tileset;
+            const data = new Float32Array(24);
+            data.set([
+                quad.position.x, quad.position.y,
+                quad.width * quad.tileSize.x, quad.height * quad.tileSize.y,
+                quad.width, quad.height,
+                tileset.imageWidth, tileset.imageHeight,
+                tileset.tileWidth, tileset.tileHeight,
+                tileset.margin, tileset.spacing
+            ]);
+            data.set(quad.tintColor.toArray(), 12);
+            data.set(quad.maskColor.toArray(), 16);
+            new Uint32Array(data.buffer)[20] = tileset.columns;
+            data[21] = this.renderer.getAnimationTime(this.renderer.getTextureInfo(tileset.name).animationTable!.period);
+            device.queue.writeBuffer(resources.uniformBuffer, 0, data);
+        }
+
+        this.quads = quads;
+    }
+
+    public render(pass: GPURenderPassEncoder, pipeline: GPURenderPipeline, tilemapPipeline: GPURenderPipeline) {
+        pass.setBindGroup(0, this.cameraBindGroup);
+        pass.setBindGroup(2, this.tintBindGroup);
+
+        if (this.quads.length) {
+            pass.setPipeline(tilemapPipeline);
+            for (const quad of this.quads) {
+                pass.setBindGroup(1, this.quadResources.get(quad)!.bindGroup);
+                pass.draw(4);
+            }
+            pass.setPipeline(pipeline);
+        }
+
         pass.setVertexBuffer(1, this.instanceBuffer);
 
         for (const drawCall of this.drawCalls) {
@@ -1153,5 +1666,11 @@ class WebgpuRendererLayer {
     public destroy() {
         this.instanceBuffer.destroy();
         this.tilesetDimBuffer.destroy();
+        this.cameraBuffer.destroy();
+        this.tintBuffer.destroy();
+        for (const resources of this.quadResources.values()) {
+            resources.texture.destroy();
+            resources.uniformBuffer.destroy();
+        }
     }
 }
\ No newline at end of file
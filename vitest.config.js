@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config';
+
+// Some modules import "./Scene", "./Sprite", ... while the files are lowercase,
+// which only resolves on case-insensitive file systems
+const lowercaseModules = ['Scene', 'Sprite', 'Vector', 'Camera', 'Renderer'].map(name => ({
+  find: new RegExp(`^(\\.{1,2}/)${name}$`),
+  replacement: `$1${name.toLowerCase()}`
+}));
+
+export default defineConfig({
+  resolve: {
+    alias: lowercaseModules
+  },
+  test: {
+    include: ['src/**/*.test.ts']
+  },
+});